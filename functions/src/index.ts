@@ -0,0 +1,328 @@
+import { initializeApp } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+import { logger } from 'firebase-functions';
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { onDocumentUpdated } from 'firebase-functions/v2/firestore';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import type { Room, PlayerIntent, PlayerIntentAction } from '../../src/types';
+import { applyPlayerAction, getActingPlayerId, getTurnDeadline } from '../../src/utils/gameRules';
+import type { GameActionResult } from '../../src/utils/gameRules';
+import { chooseBotIntent, chooseTimeoutIntent, isBotTurn } from '../../src/utils/botPlayer';
+import {
+  actionRefFor,
+  deckRefFor,
+  documentToRoom,
+  effectToEventDocument,
+  eventRefFor,
+  getDealtSeed,
+  intentToActionDocument,
+  roomToGameStateUpdate,
+} from './roomDocuments';
+import type { UnpublishedSeed } from './roomDocuments';
+import { SWEPT_ROOM_STATES, sweepRoomPresence } from './presence';
+
+initializeApp();
+
+const db = getFirestore();
+// Engine results carry optional fields (e.g. winner) that may be undefined
+db.settings({ ignoreUndefinedProperties: true });
+
+// Pause before a bot acts so players can follow along
+const BOT_TURN_DELAY_MS = 1200;
+
+// Actions clients may submit; 'skipTurn' is only played by turnTimeout
+const INTENT_ACTIONS: PlayerIntentAction[] = [
+  'hit',
+  'stay',
+  'selectTarget',
+  'startGame',
+  'startNextRound',
+  'restartGame',
+];
+
+// Validate the shape of an incoming intent before touching the room
+function parseIntent(data: unknown): PlayerIntent {
+  const intent = (data ?? {}) as Partial<PlayerIntent>;
+
+  if (typeof intent.roomCode !== 'string' || !/^[A-Z0-9]{6}$/.test(intent.roomCode)) {
+    throw new HttpsError('invalid-argument', 'A valid room code is required');
+  }
+  if (typeof intent.playerId !== 'string' || intent.playerId.length === 0) {
+    throw new HttpsError('invalid-argument', 'A player id is required');
+  }
+  if (!intent.action || !INTENT_ACTIONS.includes(intent.action)) {
+    throw new HttpsError('invalid-argument', 'Unknown action');
+  }
+  if (intent.targetPlayerId !== undefined && typeof intent.targetPlayerId !== 'string') {
+    throw new HttpsError('invalid-argument', 'Invalid target player');
+  }
+  if (intent.expectedVersion !== undefined && !Number.isInteger(intent.expectedVersion)) {
+    throw new HttpsError('invalid-argument', 'Invalid room version');
+  }
+
+  return {
+    roomCode: intent.roomCode,
+    playerId: intent.playerId,
+    action: intent.action,
+    targetPlayerId: intent.targetPlayerId,
+    expectedVersion: intent.expectedVersion,
+  };
+}
+
+// Load a room with its hidden deck, run the engine on the chosen intent and
+// write the result along with the move and one event per effect.
+// `chooseIntent` returns null when there is nothing to do. Every accepted
+// move restarts the turn clock for whoever acts next and bumps the room
+// version; an intent chosen on an older version is rejected as a conflict
+// rather than applied to a table its sender never saw.
+async function runGameAction(
+  roomCode: string,
+  chooseIntent: (room: Room) => PlayerIntent | null
+): Promise<GameActionResult | null> {
+  const roomRef = db.collection('rooms').doc(roomCode);
+  const deckRef = deckRefFor(roomRef);
+
+  return db.runTransaction(async (transaction) => {
+    const [roomDoc, deckDoc] = await Promise.all([
+      transaction.get(roomRef),
+      transaction.get(deckRef),
+    ]);
+
+    if (!roomDoc.exists) {
+      throw new HttpsError('not-found', 'Room not found');
+    }
+
+    const room = documentToRoom(roomDoc.data()!, deckDoc.data());
+    const intent = chooseIntent(room);
+    if (!intent) {
+      return null;
+    }
+
+    const version = room.version ?? 0;
+    if (intent.expectedVersion !== undefined && intent.expectedVersion !== version) {
+      throw new HttpsError('aborted', 'The room changed before your move arrived', { version });
+    }
+
+    const result = applyPlayerAction(room, intent);
+
+    if (!result.success || !result.updatedRoom) {
+      throw new HttpsError('failed-precondition', result.message);
+    }
+
+    const actionSequence: number = roomDoc.data()!.actionCount ?? 0;
+    transaction.create(
+      actionRefFor(roomRef, actionSequence),
+      intentToActionDocument(intent, actionSequence, result.updatedRoom)
+    );
+
+    // Deals keep their seed private until the game ends, then the logged
+    // moves get it back so the game can be replayed
+    const dealtSeed = getDealtSeed(intent, result.updatedRoom);
+    const unpublishedSeeds: UnpublishedSeed[] = [
+      ...(deckDoc.data()?.unpublishedSeeds ?? []),
+      ...(dealtSeed === null ? [] : [{ sequence: actionSequence, seed: dealtSeed }]),
+    ];
+    const gameOver = result.updatedRoom.state === 'gameOver';
+    if (gameOver) {
+      for (const { sequence, seed } of unpublishedSeeds) {
+        transaction.update(actionRefFor(roomRef, sequence), { seed });
+      }
+    }
+
+    const effects = result.effects ?? [];
+    const firstSequence: number = roomDoc.data()!.eventCount ?? 0;
+    const round = result.updatedRoom.round ?? room.round;
+    effects.forEach((effect, index) => {
+      const sequence = firstSequence + index;
+      transaction.create(
+        eventRefFor(roomRef, sequence),
+        effectToEventDocument(effect, sequence, round, intent.playerId)
+      );
+    });
+
+    transaction.update(roomRef, {
+      ...roomToGameStateUpdate(result.updatedRoom),
+      turnDeadline: getTurnDeadline({ ...room, ...result.updatedRoom }, Date.now()),
+      version: version + 1,
+      actionCount: actionSequence + 1,
+      eventCount: firstSequence + effects.length,
+    });
+    transaction.set(deckRef, {
+      cards: result.updatedRoom.deck ?? [],
+      roundSeeds: result.updatedRoom.roundSeeds ?? [],
+      unpublishedSeeds: gameOver ? [] : unpublishedSeeds,
+    });
+
+    return result;
+  });
+}
+
+// Validate a player's move with the game rules engine and write the result.
+// This is the only writer of game state; clients just submit intents.
+export const playerAction = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'Sign in to play');
+  }
+
+  const intent = parseIntent(request.data);
+  // Player ids are Anonymous Auth uids, so a client can only move for its own seat
+  if (intent.playerId !== request.auth.uid) {
+    throw new HttpsError('permission-denied', 'You can only act for your own seat');
+  }
+
+  const result = await runGameAction(intent.roomCode, () => intent);
+
+  return {
+    message: result?.message ?? '',
+    effects: result?.effects ?? [],
+    requiresTargetSelection: result?.requiresTargetSelection ?? false,
+  };
+});
+
+// Play for a player whose turn deadline has passed, using the room's timeout
+// policy. Any seated player may call this, so a table is never stuck
+// waiting on someone who closed their tab; the deadline is checked against
+// server time, and a late second caller finds a fresh deadline and does nothing.
+export const turnTimeout = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'Sign in to play');
+  }
+
+  const { roomCode } = (request.data ?? {}) as { roomCode?: unknown };
+  if (typeof roomCode !== 'string' || !/^[A-Z0-9]{6}$/.test(roomCode)) {
+    throw new HttpsError('invalid-argument', 'A valid room code is required');
+  }
+  const callerId = request.auth.uid;
+
+  const result = await runGameAction(roomCode, (room) => {
+    if (!room.players[callerId]) {
+      throw new HttpsError('permission-denied', 'Only players in the room can end a turn');
+    }
+
+    const actingPlayerId = getActingPlayerId(room);
+    if (room.state !== 'playing' || !actingPlayerId) {
+      return null;
+    }
+
+    const player = room.players[actingPlayerId];
+    if (!player) {
+      // The seat was emptied without passing the turn on; clear it now
+      return { roomCode, playerId: actingPlayerId, action: 'leaveGame' };
+    }
+    if (!room.turnDeadline || Date.now() < room.turnDeadline) {
+      return null;
+    }
+
+    if (player.isBot || player.autoPilot) {
+      // The bot trigger missed its move; play it now
+      return chooseBotIntent(room, actingPlayerId);
+    }
+
+    const policy = room.settings.turnTimeoutPolicy;
+    if (policy === 'botTakeover') {
+      // The engine copies players forward, so the flag is saved with the move
+      room.players[actingPlayerId] = { ...player, autoPilot: true };
+    }
+    return chooseTimeoutIntent(room, actingPlayerId, policy);
+  });
+
+  return {
+    message: result?.message ?? '',
+    effects: result?.effects ?? [],
+  };
+});
+
+// Take the caller's seat out of the room. The move goes through the engine,
+// so a player leaving on their turn passes it on and replays stay in step.
+// The last human out closes the room, deleting its deck and logs as well,
+// which clients have no access to.
+export const leaveRoom = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'Sign in to play');
+  }
+
+  const { roomCode } = (request.data ?? {}) as { roomCode?: unknown };
+  if (typeof roomCode !== 'string' || !/^[A-Z0-9]{6}$/.test(roomCode)) {
+    throw new HttpsError('invalid-argument', 'A valid room code is required');
+  }
+  const playerId = request.auth.uid;
+  const roomRef = db.collection('rooms').doc(roomCode);
+
+  const outcome = await db.runTransaction(async (transaction) => {
+    const roomDoc = await transaction.get(roomRef);
+    const players: Record<string, { isBot?: boolean }> = roomDoc.data()?.players ?? {};
+    if (!players[playerId]) {
+      return 'gone';
+    }
+    if (Object.entries(players).some(([id, player]) => id !== playerId && !player.isBot)) {
+      return 'leave';
+    }
+    transaction.delete(roomRef);
+    return 'closed';
+  });
+
+  if (outcome === 'gone') {
+    return { message: '' };
+  }
+  if (outcome === 'closed') {
+    // Subcollections outlive their room document unless deleted too
+    await db.recursiveDelete(roomRef);
+    return { message: 'Room closed' };
+  }
+
+  const result = await runGameAction(roomCode, (room) => room.players[playerId]
+    ? { roomCode, playerId, action: 'leaveGame' }
+    : null);
+
+  return { message: result?.message ?? '' };
+});
+
+// Play Solo Mode bot turns, and turns of seats a bot has taken over. Each bot move updates the room, which fires this
+// trigger again until it is a human's turn or the round is over.
+export const playBotTurn = onDocumentUpdated('rooms/{roomCode}', async (event) => {
+  const before = event.data?.before.data();
+  const after = event.data?.after.data();
+
+  // A pending action card is played by its holder, who may not be the turn player
+  const actingPlayerId = after?.pendingAction?.playerId ?? after?.currentTurn;
+  const actingPlayer = after?.players?.[actingPlayerId];
+  if (!before || !after || after.state !== 'playing' || !(actingPlayer?.isBot || actingPlayer?.autoPilot)) {
+    return;
+  }
+
+  // Ignore presence and lobby updates; only a game move hands the bot a new turn
+  const gameAdvanced = before.currentTurn !== after.currentTurn ||
+    before.deckCount !== after.deckCount ||
+    before.state !== after.state ||
+    before.pendingAction?.cardId !== after.pendingAction?.cardId;
+  if (!gameAdvanced) {
+    return;
+  }
+
+  await new Promise(resolve => setTimeout(resolve, BOT_TURN_DELAY_MS));
+
+  try {
+    await runGameAction(event.params.roomCode, (room) => {
+      // Skip if someone else moved while we waited
+      const unchanged = (room.version ?? 0) === (after.version ?? 0);
+      return unchanged && isBotTurn(room) ? chooseBotIntent(room, getActingPlayerId(room)!) : null;
+    });
+  } catch (error) {
+    logger.error('Bot turn failed', { roomCode: event.params.roomCode, error });
+  }
+});
+
+// Mark seats disconnected once their heartbeats stop. This single scheduled
+// sweep replaces per-client cleanup, so clients only ever send heartbeats.
+export const sweepPresence = onSchedule('every 1 minutes', async () => {
+  const now = Date.now();
+  const rooms = await db.collection('rooms').where('state', 'in', SWEPT_ROOM_STATES).get();
+
+  await Promise.all(rooms.docs.map(async (roomDoc) => {
+    try {
+      await sweepRoomPresence(db, roomDoc.ref, now);
+    } catch (error) {
+      logger.error('Presence sweep failed', { roomCode: roomDoc.id, error });
+    }
+  }));
+});
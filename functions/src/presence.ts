@@ -0,0 +1,74 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import type { DocumentData, DocumentReference, Firestore } from 'firebase-admin/firestore';
+import { getSeatOrder } from '../../src/utils/gameRules';
+import { getAbandonedSeatIds, getStaleSeatIds } from '../../src/utils/presence';
+import { documentToRoom } from './roomDocuments';
+
+// Rooms whose seats are still swept; finished games keep their last presence
+export const SWEPT_ROOM_STATES = ['waiting', 'playing', 'roundEnd'];
+
+// Build the update that marks silent seats disconnected and, in the lobby,
+// removes seats that have been gone too long. Returns null when nothing
+// changes and 'delete' once no human is left in the lobby.
+export function presenceSweepUpdate(data: DocumentData, now: number): DocumentData | 'delete' | null {
+  const room = documentToRoom(data);
+  const removed = room.state === 'waiting' ? getAbandonedSeatIds(room.players, now) : [];
+  const stale = getStaleSeatIds(room.players, now).filter(playerId => !removed.includes(playerId));
+
+  if (removed.length === 0 && stale.length === 0) {
+    return null;
+  }
+
+  const update: DocumentData = {};
+  for (const playerId of stale) {
+    update[`players.${playerId}.isConnected`] = false;
+  }
+
+  if (removed.length > 0) {
+    const remaining = getSeatOrder(room.players, room.seatOrder).filter(playerId => !removed.includes(playerId));
+    const humans = remaining.filter(playerId => !room.players[playerId].isBot);
+    if (humans.length === 0) {
+      return 'delete';
+    }
+
+    for (const playerId of removed) {
+      update[`players.${playerId}`] = FieldValue.delete();
+    }
+    update.seatOrder = remaining;
+    update.version = (room.version ?? 0) + 1;
+
+    // The first remaining human in seat order takes over the room
+    if (removed.includes(room.host)) {
+      update.host = humans[0];
+      update[`players.${humans[0]}.isHost`] = true;
+    }
+  }
+
+  return update;
+}
+
+// Sweep one room inside a transaction, so a heartbeat landing mid-sweep is
+// re-read rather than overwritten. A room left empty is deleted there, and
+// its deck and logs after, since subcollections outlive their document.
+export async function sweepRoomPresence(db: Firestore, roomRef: DocumentReference, now: number): Promise<void> {
+  const deleted = await db.runTransaction(async (transaction) => {
+    const roomDoc = await transaction.get(roomRef);
+    if (!roomDoc.exists) {
+      return false;
+    }
+
+    const update = presenceSweepUpdate(roomDoc.data()!, now);
+    if (update === 'delete') {
+      transaction.delete(roomRef);
+      return true;
+    }
+    if (update) {
+      transaction.update(roomRef, update);
+    }
+    return false;
+  });
+
+  if (deleted) {
+    await db.recursiveDelete(roomRef);
+  }
+}
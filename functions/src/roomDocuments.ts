@@ -0,0 +1,167 @@
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import type { DocumentData, DocumentReference } from 'firebase-admin/firestore';
+import type { Room, Player, Card, PlayerIntent, RecordedSeat } from '../../src/types';
+import { DEFAULT_ROOM_SETTINGS, getSeatOrder } from '../../src/utils/gameRules';
+import type { GameEffect } from '../../src/utils/gameRules';
+
+// Server-only document holding the draw pile and the seeds it was shuffled
+// with, denied to clients by firestore.rules
+export function deckRefFor(roomRef: DocumentReference): DocumentReference {
+  return roomRef.collection('private').doc('deck');
+}
+
+// Append-only log of game events, written only by Cloud Functions
+export function eventRefFor(roomRef: DocumentReference, sequence: number): DocumentReference {
+  // Zero-padded ids keep the documents sorted in log order
+  return roomRef.collection('events').doc(String(sequence).padStart(6, '0'));
+}
+
+// Build the stored event for one engine effect
+export function effectToEventDocument(
+  effect: GameEffect,
+  sequence: number,
+  round: number,
+  actorId: string
+): DocumentData {
+  return {
+    sequence,
+    type: effect.type,
+    round,
+    actorId: effect.sourcePlayerId ?? actorId,
+    targetId: effect.targetPlayerId ?? null,
+    cards: effect.cards ?? [],
+    message: effect.message,
+    createdAt: FieldValue.serverTimestamp(),
+  };
+}
+
+// Log of accepted moves, replayed with the recorded seeds to rebuild a game
+export function actionRefFor(roomRef: DocumentReference, sequence: number): DocumentReference {
+  return roomRef.collection('actions').doc(String(sequence).padStart(6, '0'));
+}
+
+// A logged deal whose shuffle seed is kept in the private deck document
+// until the game is over
+export interface UnpublishedSeed {
+  sequence: number;
+  seed: number;
+}
+
+function dealsRound(intent: PlayerIntent): boolean {
+  return intent.action === 'startGame' ||
+    intent.action === 'startNextRound' ||
+    intent.action === 'restartGame';
+}
+
+// The seed a move shuffled its new round with, or null if it dealt none
+export function getDealtSeed(intent: PlayerIntent, updatedRoom: Partial<Room>): number | null {
+  const seeds = updatedRoom.roundSeeds ?? [];
+  return dealsRound(intent) ? seeds[seeds.length - 1] ?? null : null;
+}
+
+// Build the stored record of an accepted move. Moves that deal a round keep
+// the seats they dealt to, so a replay still works after players leave the
+// room. Their seed would reveal the draw pile, so it is left out here and
+// filled in once the game is over.
+export function intentToActionDocument(
+  intent: PlayerIntent,
+  sequence: number,
+  updatedRoom: Partial<Room>
+): DocumentData {
+  const players = updatedRoom.players ?? {};
+  const seats: RecordedSeat[] = getSeatOrder(players, updatedRoom.seatOrder).map(playerId => ({
+    id: playerId,
+    name: players[playerId].name,
+    isBot: players[playerId].isBot ?? false,
+    isHost: players[playerId].isHost,
+  }));
+
+  return {
+    sequence,
+    playerId: intent.playerId,
+    action: intent.action,
+    targetPlayerId: intent.targetPlayerId ?? null,
+    seed: null,
+    seats: dealsRound(intent) ? seats : null,
+    createdAt: FieldValue.serverTimestamp(),
+  };
+}
+
+// Stored timestamps may be missing on rooms written by older clients
+function toDate(value: unknown): Date {
+  return value instanceof Timestamp ? value.toDate() : new Date();
+}
+
+// Convert a stored player entry into the engine's Player shape
+function documentToPlayer(playerDoc: DocumentData): Player {
+  return {
+    ...playerDoc,
+    roundScore: playerDoc.roundScore || 0,
+    totalScore: playerDoc.totalScore || 0,
+    joinedAt: toDate(playerDoc.joinedAt),
+    lastSeen: toDate(playerDoc.lastSeen),
+  } as Player;
+}
+
+// Convert a stored room document and its private deck document into the
+// engine's Room shape
+export function documentToRoom(data: DocumentData, deckData: DocumentData = {}): Room {
+  const deck: Card[] = deckData.cards ?? [];
+
+  const players: Record<string, Player> = {};
+  for (const [playerId, playerDoc] of Object.entries<DocumentData>(data.players ?? {})) {
+    players[playerId] = documentToPlayer(playerDoc);
+  }
+
+  return {
+    code: data.code,
+    host: data.host,
+    players,
+    seatOrder: getSeatOrder(players, data.seatOrder),
+    dealerId: data.dealerId ?? null,
+    deck,
+    deckCount: deck.length,
+    discardPile: data.discardPile ?? [],
+    currentTurn: data.currentTurn ?? null,
+    state: data.state,
+    round: data.round,
+    // Rooms dealt before the seeds moved to the deck document kept them public
+    roundSeeds: deckData.roundSeeds ?? data.roundSeeds ?? [],
+    createdAt: toDate(data.createdAt),
+    isSoloMode: data.isSoloMode ?? false,
+    settings: { ...DEFAULT_ROOM_SETTINGS, ...data.settings },
+    winner: data.winner,
+    winners: data.winners ?? [],
+    suddenDeathPlayerIds: data.suddenDeathPlayerIds ?? [],
+    pendingAction: data.pendingAction ?? null,
+    actionStack: data.actionStack ?? [],
+    turnDeadline: data.turnDeadline ?? null,
+    version: data.version ?? 0,
+  };
+}
+
+// Build the public room update for the game-state fields owned by the engine.
+// The deck and round seeds are written separately to the private deck
+// document: with the public deck layout, a seed is enough to rebuild the
+// draw pile, so the seeds are only published once the game is over.
+export function roomToGameStateUpdate(room: Partial<Room>): DocumentData {
+  return {
+    host: room.host,
+    players: room.players,
+    seatOrder: room.seatOrder ?? [],
+    dealerId: room.dealerId ?? null,
+    deck: FieldValue.delete(),
+    deckCount: room.deck?.length ?? 0,
+    discardPile: room.discardPile,
+    currentTurn: room.currentTurn ?? null,
+    state: room.state,
+    round: room.round,
+    roundSeeds: room.state === 'gameOver' ? room.roundSeeds ?? [] : [],
+    winner: room.winner ?? FieldValue.delete(),
+    winners: room.winners ?? [],
+    suddenDeathPlayerIds: room.suddenDeathPlayerIds ?? [],
+    pendingAction: room.pendingAction ?? null,
+    actionStack: room.actionStack ?? [],
+    lastActivity: FieldValue.serverTimestamp(),
+  };
+}
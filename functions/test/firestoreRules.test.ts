@@ -0,0 +1,238 @@
+import { readFileSync } from 'fs';
+import { assertFails, assertSucceeds, initializeTestEnvironment } from '@firebase/rules-unit-testing';
+import type { RulesTestEnvironment } from '@firebase/rules-unit-testing';
+import { deleteDoc, deleteField, doc, getDoc, setDoc, Timestamp, updateDoc } from 'firebase/firestore';
+import type { Firestore } from 'firebase/firestore';
+import { DEFAULT_ROOM_SETTINGS } from '../../src/utils/gameRules';
+
+// Run with `npm test`, which starts the Firestore emulator. npm runs scripts
+// from functions/, one level below the rules file.
+const projectId = process.env.GCLOUD_PROJECT ?? 'flip7-game';
+const ROOM_CODE = 'RULES1';
+
+function check(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`❌ ${message}`);
+  }
+  console.log(`   ✅ ${message}`);
+}
+
+// Resolve to whether the rules let the write through
+async function allows(write: Promise<unknown>): Promise<boolean> {
+  try {
+    await assertSucceeds(write);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function denies(write: Promise<unknown>): Promise<boolean> {
+  try {
+    await assertFails(write);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function seedPlayer(id: string, name: string, isHost: boolean) {
+  return {
+    id,
+    name,
+    hand: [],
+    score: 0,
+    roundScore: 0,
+    totalScore: 0,
+    status: 'active',
+    history: [],
+    joinedAt: Timestamp.now(),
+    isHost,
+    hasFlip7: false,
+    isConnected: true,
+    lastSeen: Timestamp.now(),
+  };
+}
+
+function seedBot(id: string) {
+  return { ...seedPlayer(id, `${id} (Bot)`, false), isBot: true, botDifficulty: 'balanced' };
+}
+
+function seedRoom(code: string, hostId: string, players: Record<string, ReturnType<typeof seedPlayer>>) {
+  return {
+    code,
+    host: hostId,
+    players,
+    seatOrder: Object.keys(players),
+    dealerId: null,
+    deckCount: 0,
+    discardPile: [],
+    round: 0,
+    roundSeeds: [],
+    state: 'waiting',
+    currentTurn: null,
+    createdAt: Timestamp.now(),
+    lastActivity: Timestamp.now(),
+    isSoloMode: false,
+    settings: DEFAULT_ROOM_SETTINGS,
+    actionStack: [],
+  };
+}
+
+async function run(): Promise<void> {
+  console.log('🧪 Testing Firestore security rules...\n');
+
+  const testEnv: RulesTestEnvironment = await initializeTestEnvironment({
+    projectId,
+    firestore: { rules: readFileSync('../firestore.rules', 'utf8') },
+  });
+
+  const as = (uid: string): Firestore => testEnv.authenticatedContext(uid).firestore() as unknown as Firestore;
+  const anonymous = testEnv.unauthenticatedContext().firestore() as unknown as Firestore;
+  const roomIn = (db: Firestore, code = ROOM_CODE) => doc(db, 'rooms', code);
+
+  await testEnv.withSecurityRulesDisabled(async (context) => {
+    const db = context.firestore() as unknown as Firestore;
+    await setDoc(roomIn(db), seedRoom(ROOM_CODE, 'alice', {
+      alice: seedPlayer('alice', 'Alice', true),
+      bob: seedPlayer('bob', 'Bob', false),
+      carol: seedPlayer('carol', 'Carol', false),
+    }));
+  });
+
+  console.log('1. Creating rooms...');
+  check(await allows(setDoc(roomIn(as('dave'), 'RULES2'), seedRoom('RULES2', 'dave', {
+    dave: seedPlayer('dave', 'Dave', true),
+  }))), 'A signed-in player creates a room they host');
+  check(await denies(setDoc(roomIn(as('mallory'), 'RULES3'), seedRoom('RULES3', 'alice', {
+    alice: seedPlayer('alice', 'Alice', true),
+  }))), 'Nobody can create a room hosted by someone else');
+  check(await denies(setDoc(roomIn(anonymous, 'RULES4'), seedRoom('RULES4', 'anon', {
+    anon: seedPlayer('anon', 'Anon', true),
+  }))), 'Signed-out clients cannot create rooms');
+  const soloBots = { bot_1: seedBot('bot_1'), bot_2: seedBot('bot_2') };
+  check(await allows(setDoc(roomIn(as('hana'), 'RULES5'), {
+    ...seedRoom('RULES5', 'hana', { hana: seedPlayer('hana', 'Hana', true), ...soloBots }),
+    isSoloMode: true,
+  })), 'A Solo Mode room seats bots beside the host');
+  check(await denies(setDoc(roomIn(as('hana'), 'RULES6'), {
+    ...seedRoom('RULES6', 'hana', { hana: seedPlayer('hana', 'Hana', true), ivan: seedPlayer('ivan', 'Ivan', false) }),
+    isSoloMode: true,
+  })), 'A Solo Mode room cannot seat other humans');
+  const scoredBot = { ...seedBot('bot_1'), totalScore: 150 };
+  check(await denies(setDoc(roomIn(as('hana'), 'RULES6'), {
+    ...seedRoom('RULES6', 'hana', { hana: seedPlayer('hana', 'Hana', true), bot_1: scoredBot }),
+    isSoloMode: true,
+  })), 'Bots start without points');
+  check(await allows(getDoc(roomIn(anonymous))), 'Anyone can read a room to join it');
+
+  console.log('\n2. Changing seats...');
+  check(await allows(updateDoc(roomIn(as('erin')), {
+    'players.erin': seedPlayer('erin', 'Erin', false),
+    seatOrder: ['alice', 'bob', 'carol', 'erin'],
+    version: 1,
+  })), 'A player takes their own seat in the lobby');
+  check(await denies(updateDoc(roomIn(as('frank')), {
+    'players.grace': seedPlayer('grace', 'Grace', false),
+  })), 'A player cannot seat someone else');
+  check(await denies(updateDoc(roomIn(as('frank')), {
+    'players.frank': seedPlayer('frank', 'Frank', true),
+  })), 'A player cannot join as host');
+  const asBot = { ...seedPlayer('frank', 'Frank', false), isBot: true };
+  check(await denies(updateDoc(roomIn(as('frank')), {
+    'players.frank': asBot,
+    seatOrder: ['alice', 'bob', 'carol', 'erin', 'frank'],
+    version: 2,
+  })), 'A player cannot join as a bot');
+  const withPoints = { ...seedPlayer('frank', 'Frank', false), totalScore: 150 };
+  check(await denies(updateDoc(roomIn(as('frank')), {
+    'players.frank': withPoints,
+    seatOrder: ['alice', 'bob', 'carol', 'erin', 'frank'],
+    version: 2,
+  })), 'A player cannot join with points');
+  check(await allows(updateDoc(roomIn(as('bob')), {
+    'players.bob.isConnected': false,
+    'players.bob.lastSeen': Timestamp.now(),
+  })), 'A player updates their own presence');
+  check(await denies(updateDoc(roomIn(as('bob')), {
+    'players.alice.isConnected': false,
+  })), "A player cannot touch another player's seat");
+  check(await denies(updateDoc(roomIn(as('bob')), {
+    'players.bob.totalScore': 500,
+  })), 'A player cannot edit their own score');
+  check(await allows(updateDoc(roomIn(as('bob')), {
+    'players.bob.autoPilot': false,
+  })), 'A player takes their seat back from the bot');
+  check(await denies(updateDoc(roomIn(as('bob')), {
+    'players.bob.autoPilot': true,
+  })), 'A player cannot hand their seat to the bot');
+  check(await denies(updateDoc(roomIn(anonymous), {
+    'players.bob.isConnected': true,
+  })), 'Signed-out clients cannot update rooms');
+
+  console.log('\n3. Host powers...');
+  check(await denies(updateDoc(roomIn(as('bob')), {
+    'players.carol': deleteField(),
+    seatOrder: ['alice', 'bob', 'erin'],
+  })), 'Only the host can kick');
+  check(await denies(updateDoc(roomIn(as('bob')), {
+    settings: { ...DEFAULT_ROOM_SETTINGS, targetScore: 100 },
+  })), 'Only the host can change settings');
+  check(await allows(updateDoc(roomIn(as('alice')), {
+    settings: { ...DEFAULT_ROOM_SETTINGS, targetScore: 100 },
+    version: 2,
+  })), 'The host changes settings in the lobby');
+  check(await allows(updateDoc(roomIn(as('alice')), {
+    'players.carol': deleteField(),
+    seatOrder: ['alice', 'bob', 'erin'],
+    version: 3,
+  })), 'The host kicks a player');
+  check(await denies(updateDoc(roomIn(as('bob')), {
+    host: 'bob',
+    'players.bob.isHost': true,
+  })), 'A player cannot take over as host');
+
+  console.log('\n4. Advancing the game...');
+  check(await denies(updateDoc(roomIn(as('alice')), { state: 'playing' })), 'The host cannot start the game without the server');
+  check(await denies(updateDoc(roomIn(as('bob')), { currentTurn: 'bob' })), 'A player cannot take the turn');
+  check(await denies(updateDoc(roomIn(as('bob')), {
+    'players.bob.hand': [{ id: 'number-7-0', type: 'number', value: 7, isFlipped: true, isVisible: true }],
+  })), 'A player cannot edit their own hand');
+  check(await denies(updateDoc(roomIn(as('bob')), { turnDeadline: Date.now() })), 'A player cannot move the turn deadline');
+  check(await allows(updateDoc(roomIn(as('alice')), {
+    settings: { ...DEFAULT_ROOM_SETTINGS, targetScore: 150 },
+    version: 4,
+  })), 'A settings change steps the room version up by one');
+  check(await denies(updateDoc(roomIn(as('alice')), {
+    settings: { ...DEFAULT_ROOM_SETTINGS, targetScore: 200 },
+    version: 4,
+  })), 'A settings change based on a stale version is rejected');
+  check(await denies(updateDoc(roomIn(as('alice')), { version: 9 })), 'The version cannot jump ahead');
+
+  console.log('\n5. Leaving...');
+  check(await denies(updateDoc(roomIn(as('erin')), {
+    'players.erin': deleteField(),
+    seatOrder: ['alice', 'bob'],
+    version: 5,
+  })), 'Players leave through the server, not by deleting their seat');
+  check(await denies(updateDoc(roomIn(as('alice')), {
+    'players.alice': deleteField(),
+    'players.bob.isHost': true,
+    host: 'bob',
+    seatOrder: ['bob', 'erin'],
+    version: 5,
+  })), 'A host cannot hand the room over on the way out');
+  check(await denies(deleteDoc(roomIn(as('alice')))), 'Players cannot delete the room');
+
+  await testEnv.withSecurityRulesDisabled(async (context) => {
+    await deleteDoc(roomIn(context.firestore() as unknown as Firestore, 'RULES2'));
+    await deleteDoc(roomIn(context.firestore() as unknown as Firestore, 'RULES5'));
+  });
+  await testEnv.cleanup();
+  console.log('\n🎉 All Firestore security rules tests passed!');
+}
+
+run().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
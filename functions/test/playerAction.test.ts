@@ -0,0 +1,245 @@
+import { initializeApp } from 'firebase-admin/app';
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import type { PlayerIntent } from '../../src/types';
+
+// Run with `npm test`, which starts the Firestore and Functions emulators
+const projectId = process.env.GCLOUD_PROJECT ?? 'flip7-game';
+const functionsHost = process.env.FUNCTIONS_EMULATOR_HOST ?? '127.0.0.1:5001';
+const ROOM_CODE = 'TEST01';
+const LEAVE_ROOM_CODE = 'TEST02';
+
+initializeApp({ projectId });
+const db = getFirestore();
+
+function check(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`❌ ${message}`);
+  }
+  console.log(`   ✅ ${message}`);
+}
+
+// The Functions emulator skips token verification, so an unsigned ID token
+// is enough to sign a call in as a given uid
+function idTokenFor(uid: string): string {
+  const encode = (part: object) => Buffer.from(JSON.stringify(part)).toString('base64url');
+  const now = Math.floor(Date.now() / 1000);
+  return [
+    encode({ alg: 'none', typ: 'JWT' }),
+    encode({
+      sub: uid,
+      user_id: uid,
+      aud: projectId,
+      iss: `https://securetoken.google.com/${projectId}`,
+      iat: now,
+      exp: now + 3600,
+      firebase: { sign_in_provider: 'anonymous', identities: {} },
+    }),
+    '',
+  ].join('.');
+}
+
+// Call a callable the same way the web client does, signed in as the given
+// uid, or signed out for null
+async function callFunction(
+  name: string,
+  data: object,
+  callerUid: string | null
+): Promise<{ ok: boolean; message: string; status?: string }> {
+  const response = await fetch(`http://${functionsHost}/${projectId}/us-central1/${name}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(callerUid && { Authorization: `Bearer ${idTokenFor(callerUid)}` }),
+    },
+    body: JSON.stringify({ data }),
+  });
+  const body = await response.json() as {
+    result?: { message: string };
+    error?: { message: string; status: string };
+  };
+  return body.error
+    ? { ok: false, message: body.error.message, status: body.error.status }
+    : { ok: true, message: body.result?.message ?? '' };
+}
+
+// Call playerAction signed in as the acting player unless another caller is given
+function callPlayerAction(intent: PlayerIntent, callerUid: string | null = intent.playerId) {
+  return callFunction('playerAction', intent, callerUid);
+}
+
+function seedPlayer(id: string, name: string, isHost: boolean) {
+  return {
+    id,
+    name,
+    hand: [],
+    score: 0,
+    roundScore: 0,
+    totalScore: 0,
+    status: 'active',
+    history: [],
+    joinedAt: Timestamp.now(),
+    isHost,
+    hasFlip7: false,
+    isConnected: true,
+    lastSeen: Timestamp.now(),
+  };
+}
+
+async function run(): Promise<void> {
+  console.log('🧪 Testing server-side move validation...\n');
+
+  const roomRef = db.collection('rooms').doc(ROOM_CODE);
+  await roomRef.set({
+    code: ROOM_CODE,
+    host: 'host',
+    players: {
+      host: seedPlayer('host', 'Host', true),
+      guest: seedPlayer('guest', 'Guest', false),
+    },
+    deckCount: 0,
+    discardPile: [],
+    round: 0,
+    state: 'waiting',
+    currentTurn: null,
+    createdAt: Timestamp.now(),
+    settings: { maxRounds: 10 },
+    lastActivity: Timestamp.now(),
+    pendingAction: null,
+  });
+
+  console.log('1. Starting the game...');
+  const signedOut = await callPlayerAction({ roomCode: ROOM_CODE, playerId: 'host', action: 'startGame' }, null);
+  check(!signedOut.ok, 'Signed-out callers are rejected');
+
+  const impostor = await callPlayerAction({ roomCode: ROOM_CODE, playerId: 'host', action: 'startGame' }, 'guest');
+  check(!impostor.ok, 'A player cannot act for another seat');
+
+  const guestStart = await callPlayerAction({ roomCode: ROOM_CODE, playerId: 'guest', action: 'startGame' });
+  check(!guestStart.ok, 'Non-host cannot start the game');
+
+  const hostStart = await callPlayerAction({ roomCode: ROOM_CODE, playerId: 'host', action: 'startGame' });
+  check(hostStart.ok, 'Host starts the game');
+
+  const started = (await roomRef.get()).data()!;
+  check(started.state === 'playing' && started.round === 1, 'Room is playing round 1');
+  check(started.players.host.hand.length === 1 && started.players.guest.hand.length === 1, 'Each player was dealt one card');
+
+  const deckRef = roomRef.collection('private').doc('deck');
+  const hiddenDeck = (await deckRef.get()).data()!;
+  check(started.deck === undefined, 'Room document does not expose the deck');
+  check(hiddenDeck.cards.length === started.deckCount, 'Private deck matches the public deck count');
+  check(started.roundSeeds.length === 0 && hiddenDeck.roundSeeds.length === 1, 'The shuffle seed stays in the private deck until the game is over');
+
+  const startAction = (await roomRef.collection('actions').doc('000000').get()).data();
+  check(startAction?.action === 'startGame' && startAction.seed === null, 'Start was recorded without its shuffle seed');
+  check(hiddenDeck.unpublishedSeeds[0]?.seed === hiddenDeck.roundSeeds[0], 'The seed waits in the private deck for the game to end');
+  check(startAction?.seats.map((seat: { id: string }) => seat.id).join() === started.seatOrder.join(), 'Start was recorded with the seats it dealt to');
+
+  console.log('\n2. Validating turns...');
+  const outOfTurn = started.currentTurn === 'host' ? 'guest' : 'host';
+  const wrongTurn = await callPlayerAction({ roomCode: ROOM_CODE, playerId: outOfTurn, action: 'hit' });
+  check(!wrongTurn.ok, 'Hitting out of turn is rejected');
+
+  const unchanged = (await roomRef.get()).data()!;
+  check(unchanged.deckCount === started.deckCount, 'Rejected move leaves the deck untouched');
+
+  const stay = await callPlayerAction({ roomCode: ROOM_CODE, playerId: started.currentTurn, action: 'stay' });
+  check(stay.ok, 'Current player can stay');
+
+  const afterStay = (await roomRef.get()).data()!;
+  check(afterStay.players[started.currentTurn].status === 'stayed', 'Stay was written by the server');
+
+  const events = await roomRef.collection('events').orderBy('sequence').get();
+  const stayEvent = events.docs[events.size - 1]?.data();
+  check(stayEvent?.type === 'stay' && stayEvent.actorId === started.currentTurn, 'Stay was recorded in the event log');
+  check(afterStay.eventCount === events.size, 'Room tracks the number of logged events');
+  check(typeof afterStay.turnDeadline === 'number' && afterStay.turnDeadline > Date.now(), 'The next player has a turn deadline');
+
+  console.log('\n3. Validating intents...');
+  const bogus = await callPlayerAction({ roomCode: ROOM_CODE, playerId: 'host', action: 'cheat' as PlayerIntent['action'] });
+  check(!bogus.ok, 'Unknown actions are rejected');
+
+  const selfSkip = await callPlayerAction({ roomCode: ROOM_CODE, playerId: 'host', action: 'skipTurn' });
+  check(!selfSkip.ok, 'Only the server can skip a turn');
+
+  const noPending = await callPlayerAction({ roomCode: ROOM_CODE, playerId: 'host', action: 'selectTarget', targetPlayerId: 'guest' });
+  check(!noPending.ok, 'Selecting a target without a pending action card is rejected');
+
+  console.log('\n4. Interleaving writes...');
+  check(started.version === 1 && afterStay.version === 2, 'Every accepted move bumps the room version');
+
+  // Two tabs send a move for the same seat, both chosen on the same version
+  const racer = afterStay.currentTurn;
+  const race = await Promise.all([1, 2].map(() =>
+    callPlayerAction({ roomCode: ROOM_CODE, playerId: racer, action: 'hit', expectedVersion: afterStay.version })
+  ));
+  check(race.filter(result => result.ok).length === 1, 'Only one of two moves sent on the same version lands');
+  check(race.some(result => result.status === 'ABORTED'), 'The other is rejected as a version conflict');
+
+  const afterRace = (await roomRef.get()).data()!;
+  check(afterRace.version === afterStay.version + 1 && afterRace.actionCount === afterStay.actionCount + 1, 'The rejected move wrote nothing');
+
+  const late = await callPlayerAction({ roomCode: ROOM_CODE, playerId: racer, action: 'stay', expectedVersion: afterStay.version });
+  check(late.status === 'ABORTED', 'A move chosen on an older version is rejected');
+
+  const [allEvents, actions] = await Promise.all([
+    roomRef.collection('events').get(),
+    roomRef.collection('actions').get(),
+  ]);
+  await Promise.all([...allEvents.docs, ...actions.docs].map(entry => entry.ref.delete()));
+  await deckRef.delete();
+  await roomRef.delete();
+
+  console.log('\n5. Leaving mid-game...');
+  const leaveRef = db.collection('rooms').doc(LEAVE_ROOM_CODE);
+  await leaveRef.set({
+    code: LEAVE_ROOM_CODE,
+    host: 'host',
+    players: {
+      host: seedPlayer('host', 'Host', true),
+      guest: seedPlayer('guest', 'Guest', false),
+      third: seedPlayer('third', 'Third', false),
+    },
+    seatOrder: ['host', 'guest', 'third'],
+    deckCount: 0,
+    discardPile: [],
+    round: 0,
+    state: 'waiting',
+    currentTurn: null,
+    createdAt: Timestamp.now(),
+    settings: { maxRounds: 10 },
+    lastActivity: Timestamp.now(),
+    pendingAction: null,
+  });
+  await callPlayerAction({ roomCode: LEAVE_ROOM_CODE, playerId: 'host', action: 'startGame' });
+
+  const beforeLeave = (await leaveRef.get()).data()!;
+  const leaver: string = beforeLeave.pendingAction?.playerId ?? beforeLeave.currentTurn;
+  const leave = await callFunction('leaveRoom', { roomCode: LEAVE_ROOM_CODE }, leaver);
+  check(leave.ok, 'A player leaves on their own turn');
+
+  const afterLeave = (await leaveRef.get()).data()!;
+  check(!afterLeave.players[leaver] && !afterLeave.seatOrder.includes(leaver), 'Their seat is gone');
+  check(afterLeave.state !== 'playing' || (afterLeave.currentTurn !== leaver && !!afterLeave.players[afterLeave.currentTurn]),
+    'The turn passed to a player still at the table');
+  check(!!afterLeave.players[afterLeave.host]?.isHost, 'The room still has a seated host');
+  const leaveAction = (await leaveRef.collection('actions').doc(String(beforeLeave.actionCount).padStart(6, '0')).get()).data();
+  check(leaveAction?.action === 'leaveGame' && leaveAction.playerId === leaver, 'The leave was logged for replays');
+
+  for (const playerId of Object.keys(afterLeave.players)) {
+    await callFunction('leaveRoom', { roomCode: LEAVE_ROOM_CODE }, playerId);
+  }
+  const [closedRoom, closedDeck, closedActions] = await Promise.all([
+    leaveRef.get(),
+    leaveRef.collection('private').doc('deck').get(),
+    leaveRef.collection('actions').get(),
+  ]);
+  check(!closedRoom.exists && !closedDeck.exists && closedActions.empty, 'The last player out closes the room with its deck and logs');
+
+  console.log('\n🎉 All server-side move validation tests passed!');
+}
+
+run().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
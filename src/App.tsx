@@ -1,14 +1,23 @@
 import React from 'react';
-import { Button, Modal, Lobby } from './components';
+import { Button, Modal, Lobby, ReplayViewer } from './components';
 import { GameBoard } from './components/GameBoard';
 import { GameProvider } from './contexts/GameContext';
 import { useGame } from './hooks/useGame';
 import { ConnectionStatus } from './components/ConnectionStatus';
 import CardDemo from './components/CardDemo';
 import TurnBasedGameDemo from './components/TurnBasedGameDemo';
+import { DEFAULT_SOLO_OPTIONS, MAX_BOT_COUNT } from './utils/botPlayer';
+import type { BotDifficulty } from './types';
 
 
+// Replays are shared as /replay/{ROOMCODE}
+function getReplayRoomCode(pathname: string): string | null {
+  const match = pathname.match(/^\/replay\/([A-Z0-9]{6})\/?$/i);
+  return match ? match[1].toUpperCase() : null;
+}
+
 function AppContent() {
+  const [replayRoomCode, setReplayRoomCode] = React.useState(() => getReplayRoomCode(window.location.pathname));
   const [isJoinModalOpen, setIsJoinModalOpen] = React.useState(false);
   const [isCreateModalOpen, setIsCreateModalOpen] = React.useState(false);
   const [isSoloModalOpen, setIsSoloModalOpen] = React.useState(false);
@@ -20,7 +29,7 @@ function AppContent() {
     maxPlayers: 4, 
     maxRounds: 5 
   });
-  const [soloForm, setSoloForm] = React.useState({ name: '' });
+  const [soloForm, setSoloForm] = React.useState({ name: '', ...DEFAULT_SOLO_OPTIONS });
   
   // Form validation states
   const [joinErrors, setJoinErrors] = React.useState<{ name?: string; roomCode?: string }>({});
@@ -32,6 +41,9 @@ function AppContent() {
     createRoom, 
     joinRoom, 
     leaveRoom,
+    savedSeat,
+    resumeSavedSeat,
+    dismissSavedSeat,
     isLoading, 
     error, 
     clearError,
@@ -50,7 +62,7 @@ function AppContent() {
     }
     if (!isSoloModalOpen) {
       setSoloErrors({});
-      setSoloForm({ name: '' });
+      setSoloForm({ name: '', ...DEFAULT_SOLO_OPTIONS });
     }
   }, [isJoinModalOpen, isCreateModalOpen, isSoloModalOpen]);
 
@@ -122,7 +134,10 @@ function AppContent() {
     }
     
     try {
-      await createRoom(soloForm.name.trim(), true);
+      await createRoom(soloForm.name.trim(), true, {
+        botCount: soloForm.botCount,
+        difficulty: soloForm.difficulty,
+      });
       setIsSoloModalOpen(false);
     } catch {
       // Error is handled by the context
@@ -145,21 +160,44 @@ function AppContent() {
   };
 
   const handleSoloInputChange = (value: string) => {
-    setSoloForm({ name: value });
+    setSoloForm(prev => ({ ...prev, name: value }));
     if (soloErrors.name) {
       setSoloErrors({});
     }
   };
 
+  // Replay links open straight into the read-only replay viewer
+  if (replayRoomCode) {
+    return (
+      <ReplayViewer
+        roomCode={replayRoomCode}
+        onExit={() => {
+          window.history.pushState(null, '', '/');
+          setReplayRoomCode(null);
+        }}
+      />
+    );
+  }
+
   // If we're in a room, show the appropriate view
   if (room) {
     // Show lobby if game is waiting
     if (room.state === 'waiting') {
-      return <Lobby onLeaveRoom={leaveRoom} />;
+      return (
+        <>
+          <ConnectionStatus showError={false} />
+          <Lobby onLeaveRoom={leaveRoom} />
+        </>
+      );
     }
     // Show game board for playing state
     if (room.state === 'playing') {
-      return <GameBoard onLeaveGame={leaveRoom} />;
+      return (
+        <>
+          <ConnectionStatus showError={false} />
+          <GameBoard onLeaveGame={leaveRoom} />
+        </>
+      );
     }
     // For other states, return null (will be handled by game components)
     return null;
@@ -239,6 +277,50 @@ function AppContent() {
             </div>
           )}
           
+          {/* Seat saved from an earlier visit */}
+          {savedSeat && (
+            <div style={{
+              backgroundColor: 'rgba(251, 191, 36, 0.15)',
+              padding: '1rem 1.5rem',
+              borderRadius: '0.75rem',
+              marginBottom: '2rem',
+              backdropFilter: 'blur(10px)',
+              border: '1px solid rgba(251, 191, 36, 0.4)',
+              maxWidth: '500px',
+              width: '100%',
+              display: 'flex',
+              flexDirection: 'column',
+              alignItems: 'center',
+              gap: '0.75rem'
+            }}>
+              <Button
+                variant="primary"
+                onClick={resumeSavedSeat}
+                disabled={isLoading}
+                style={{ width: '100%', maxWidth: '300px' }}
+              >
+                {isLoading ? 'Rejoining...' : `Resume game in room ${savedSeat.roomCode}`}
+              </Button>
+              <div style={{ fontSize: '0.875rem', color: '#d1d5db' }}>
+                Playing as {savedSeat.playerName} ·{' '}
+                <button
+                  onClick={dismissSavedSeat}
+                  style={{
+                    background: 'none',
+                    border: 'none',
+                    padding: 0,
+                    color: '#fbbf24',
+                    textDecoration: 'underline',
+                    cursor: 'pointer',
+                    fontSize: 'inherit'
+                  }}
+                >
+                  Forget this seat
+                </button>
+              </div>
+            </div>
+          )}
+          
           {/* Action Buttons */}
           <div style={{
             display: 'flex',
@@ -835,6 +917,66 @@ function AppContent() {
               </p>
             )}
           </div>
+
+          <div>
+            <label style={{
+              display: 'block',
+              fontSize: '0.875rem',
+              fontWeight: '500',
+              color: '#374151',
+              marginBottom: '0.5rem'
+            }}>
+              AI Opponents
+            </label>
+            <select
+              value={soloForm.botCount}
+              onChange={(e) => setSoloForm(prev => ({ ...prev, botCount: parseInt(e.target.value) }))}
+              style={{
+                width: '100%',
+                padding: '0.5rem 0.75rem',
+                border: '1px solid #d1d5db',
+                borderRadius: '0.375rem',
+                outline: 'none',
+                backgroundColor: 'white'
+              }}
+              disabled={isLoading}
+            >
+              {Array.from({ length: MAX_BOT_COUNT }, (_, i) => i + 1).map(count => (
+                <option key={count} value={count}>
+                  {count} {count === 1 ? 'Opponent' : 'Opponents'}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label style={{
+              display: 'block',
+              fontSize: '0.875rem',
+              fontWeight: '500',
+              color: '#374151',
+              marginBottom: '0.5rem'
+            }}>
+              Difficulty
+            </label>
+            <select
+              value={soloForm.difficulty}
+              onChange={(e) => setSoloForm(prev => ({ ...prev, difficulty: e.target.value as BotDifficulty }))}
+              style={{
+                width: '100%',
+                padding: '0.5rem 0.75rem',
+                border: '1px solid #d1d5db',
+                borderRadius: '0.375rem',
+                outline: 'none',
+                backgroundColor: 'white'
+              }}
+              disabled={isLoading}
+            >
+              <option value="cautious">Cautious - stays early</option>
+              <option value="balanced">Balanced</option>
+              <option value="reckless">Reckless - pushes their luck</option>
+            </select>
+          </div>
           
           <div style={{ display: 'flex', gap: '0.5rem', paddingTop: '1rem' }}>
             <Button
@@ -8,6 +8,7 @@ interface CardPileProps {
   size?: 'sm' | 'md' | 'lg';
   showCount?: boolean;
   isHighlighted?: boolean;
+  recentCount?: number; // Latest cards listed when the pile is opened; 0 keeps it closed
   onClick?: () => void;
 }
 
@@ -17,8 +18,11 @@ const CardPile: React.FC<CardPileProps> = ({
   size = 'md',
   showCount = true,
   isHighlighted = false,
+  recentCount = 0,
   onClick,
 }) => {
+  const [isBrowsing, setIsBrowsing] = React.useState(false);
+
   const sizeClasses = {
     sm: 'w-12 h-16 md:w-14 md:h-18',
     md: 'w-16 h-24 md:w-20 md:h-28',
@@ -27,12 +31,28 @@ const CardPile: React.FC<CardPileProps> = ({
 
   const cardCount = cards.length;
   const topCard = cards[cardCount - 1];
+  // Newest first
+  const recentCards = recentCount > 0 ? cards.slice(-recentCount).reverse() : [];
+
+  const handleClick = () => {
+    if (recentCount > 0 && cardCount > 0) {
+      setIsBrowsing(browsing => !browsing);
+    }
+    onClick?.();
+  };
 
   return (
     <div 
       className={`relative ${sizeClasses[size]} ${className}`}
-      onClick={onClick}
+      onClick={handleClick}
     >
+      {/* Empty pile outline */}
+      {cardCount === 0 && (
+        <div className="absolute inset-0 rounded-xl border-2 border-dashed border-white/20 flex items-center justify-center text-white/40 text-xs">
+          Empty
+        </div>
+      )}
+
       {/* Background cards (stack effect) */}
       {cardCount > 1 && (
         <>
@@ -60,7 +80,7 @@ const CardPile: React.FC<CardPileProps> = ({
       )}
 
       {/* Card count badge */}
-      {showCount && cardCount > 1 && (
+      {showCount && cardCount > 0 && (
         <div className="absolute -bottom-2 -right-2 bg-blue-600 text-white text-xs font-bold px-2 py-1 rounded-full shadow-lg border-2 border-white z-20">
           {cardCount}
         </div>
@@ -73,6 +93,32 @@ const CardPile: React.FC<CardPileProps> = ({
 
       {/* Hover effect */}
       <div className="absolute inset-0 rounded-xl bg-gradient-to-br from-white/10 to-transparent opacity-0 hover:opacity-100 transition-opacity duration-300 pointer-events-none z-40" />
+
+      {/* Latest discards */}
+      {isBrowsing && recentCards.length > 0 && (
+        <div
+          className="absolute top-full left-1/2 -translate-x-1/2 mt-4 z-50 w-max max-w-md bg-black/85 backdrop-blur-md rounded-xl border border-white/10 shadow-2xl p-3 cursor-default"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className="flex items-center justify-between gap-4 mb-2">
+            <span className="text-white text-sm font-semibold">
+              Last {recentCards.length} of {cardCount} discards
+            </span>
+            <button
+              className="text-gray-400 hover:text-white text-sm"
+              onClick={() => setIsBrowsing(false)}
+            >
+              ✕
+            </button>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {recentCards.map(card => (
+              <Card key={card.id} card={card} size="sm" />
+            ))}
+          </div>
+          <div className="text-gray-400 text-xs mt-2">Newest first</div>
+        </div>
+      )}
     </div>
   );
 };
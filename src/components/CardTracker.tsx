@@ -0,0 +1,150 @@
+import React from 'react';
+import type { DeckDefinition, Player, Room } from '../types';
+import { countCardsByFace, getUnseenCards } from '../utils/cardSystem';
+import { getSeatOrder } from '../utils/gameRules';
+
+interface CardTrackerProps {
+  room: Room;
+  currentPlayerId?: string; // Viewer whose bust numbers are highlighted
+}
+
+const ACTION_LABELS: Record<keyof DeckDefinition['action'], string> = {
+  freeze: '❄️ Freeze',
+  flipThree: '🔄 Flip Three',
+  secondChance: '🍀 Second Chance',
+};
+
+const MODIFIER_LABELS: Record<keyof DeckDefinition['modifier'], string> = {
+  plus4: '+4',
+  plus6: '+6',
+  plus8: '+8',
+  plus10: '+10',
+  x2: '×2',
+};
+
+// Numbers already in a hand, which bust that player if drawn again
+function getHeldNumbers(player: Player): Set<number> {
+  return new Set(
+    player.hand
+      .filter(card => card.type === 'number' && card.value !== undefined)
+      .map(card => card.value!)
+  );
+}
+
+export const CardTracker: React.FC<CardTrackerProps> = ({ room, currentPlayerId }) => {
+  // Everything not in a hand or the discard pile is still in the draw pile
+  const unseen = React.useMemo(() => {
+    const visibleCards = [
+      ...Object.values(room.players).flatMap(player => player.hand),
+      ...room.discardPile,
+    ];
+    return countCardsByFace(getUnseenCards(visibleCards, room.settings.deck), room.settings.deck);
+  }, [room.players, room.discardPile, room.settings.deck]);
+
+  // Players still drawing, in seat order, with the numbers that would bust them
+  const drawingPlayers = React.useMemo(() => {
+    return getSeatOrder(room.players, room.seatOrder)
+      .map(id => room.players[id])
+      .filter(player => player.status === 'active')
+      .map(player => ({ player, heldNumbers: getHeldNumbers(player) }));
+  }, [room.players, room.seatOrder]);
+
+  const totalUnseen = [unseen.number, unseen.action, unseen.modifier]
+    .flatMap(counts => Object.values<number>(counts))
+    .reduce((sum, count) => sum + count, 0);
+  const numberValues = Object.keys(unseen.number).map(Number).sort((a, b) => b - a);
+  const myHeldNumbers = drawingPlayers.find(({ player }) => player.id === currentPlayerId)?.heldNumbers;
+
+  const renderCounts = (labels: Record<string, string>, counts: Record<string, number>) => (
+    <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.375rem' }}>
+      {Object.entries(labels).map(([key, label]) => (
+        <span key={key} style={{
+          padding: '0.125rem 0.5rem',
+          borderRadius: '0.375rem',
+          backgroundColor: 'rgba(255, 255, 255, 0.05)',
+          color: counts[key] > 0 ? 'white' : '#6b7280',
+          fontSize: '0.75rem'
+        }}>
+          {label} <strong>{counts[key] ?? 0}</strong>
+        </span>
+      ))}
+    </div>
+  );
+
+  return (
+    <div style={{
+      backgroundColor: 'rgba(255, 255, 255, 0.1)',
+      borderRadius: '0.75rem',
+      padding: '1rem',
+      marginBottom: '1rem'
+    }}>
+      <div style={{
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: '0.75rem'
+      }}>
+        <span style={{ color: '#9ca3af', fontSize: '0.875rem' }}>🧮 Card Tracker</span>
+        <span style={{ color: 'white', fontSize: '0.75rem' }}>{totalUnseen} unseen</span>
+      </div>
+
+      {/* Numbers, highlighted where a draw would bust someone */}
+      <div style={{
+        display: 'grid',
+        gridTemplateColumns: 'repeat(auto-fill, minmax(52px, 1fr))',
+        gap: '0.375rem',
+        marginBottom: '0.75rem'
+      }}>
+        {numberValues.map(value => {
+          const count = unseen.number[value] ?? 0;
+          const bustsMe = count > 0 && myHeldNumbers?.has(value);
+          const bustedPlayers = count > 0
+            ? drawingPlayers.filter(({ heldNumbers }) => heldNumbers.has(value)).map(({ player }) => player)
+            : [];
+
+          return (
+            <div
+              key={value}
+              title={bustedPlayers.length > 0
+                ? `Busts ${bustedPlayers.map(player => player.name).join(', ')}`
+                : undefined}
+              style={{
+                padding: '0.25rem',
+                borderRadius: '0.375rem',
+                textAlign: 'center',
+                backgroundColor: bustsMe
+                  ? 'rgba(239, 68, 68, 0.3)'
+                  : bustedPlayers.length > 0 ? 'rgba(245, 158, 11, 0.15)' : 'rgba(255, 255, 255, 0.05)',
+                border: bustsMe ? '1px solid rgba(239, 68, 68, 0.6)' : '1px solid transparent',
+                opacity: count > 0 ? 1 : 0.4
+              }}
+            >
+              <div style={{ color: 'white', fontWeight: '700', fontSize: '0.875rem' }}>{value}</div>
+              <div style={{ color: '#d1d5db', fontSize: '0.75rem' }}>×{count}</div>
+              {bustedPlayers.length > 0 && (
+                <div style={{
+                  color: bustsMe ? '#fca5a5' : '#fbbf24',
+                  fontSize: '0.625rem',
+                  whiteSpace: 'nowrap',
+                  overflow: 'hidden',
+                  textOverflow: 'ellipsis'
+                }}>
+                  {bustedPlayers.map(player => player.id === currentPlayerId ? 'You' : player.name.charAt(0).toUpperCase()).join(' ')}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div style={{ color: '#9ca3af', fontSize: '0.75rem', marginBottom: '0.375rem' }}>Actions</div>
+      <div style={{ marginBottom: '0.75rem' }}>
+        {renderCounts(ACTION_LABELS, unseen.action)}
+      </div>
+      <div style={{ color: '#9ca3af', fontSize: '0.75rem', marginBottom: '0.375rem' }}>Modifiers</div>
+      {renderCounts(MODIFIER_LABELS, unseen.modifier)}
+    </div>
+  );
+};
+
+export default CardTracker;
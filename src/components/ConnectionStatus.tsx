@@ -1,58 +1,100 @@
 import React from 'react';
 import { useGame } from '../hooks/useGame';
+import { getSeatOrder } from '../utils/gameRules';
+import { getPresence } from '../utils/presence';
+import type { PresenceState } from '../utils/presence';
 
 interface ConnectionStatusProps {
   className?: string;
+  showError?: boolean; // Off where the screen already shows errors itself
 }
 
-export function ConnectionStatus({ className = '' }: ConnectionStatusProps) {
-  const { isConnected, isReconnecting, error, clearError } = useGame();
+const PRESENCE_STYLES: Record<PresenceState, { dot: string; label: string }> = {
+  online: { dot: 'bg-green-400', label: 'Online' },
+  away: { dot: 'bg-yellow-400', label: 'Away' },
+  offline: { dot: 'bg-gray-500', label: 'Offline' },
+};
 
-  if (!isConnected && !isReconnecting && !error) {
+// How often presence is re-read, so missed heartbeats show up without a room update
+const PRESENCE_REFRESH_MS = 5000;
+
+export function ConnectionStatus({ className = '', showError = true }: ConnectionStatusProps) {
+  const { room, currentPlayerId, isConnected, isReconnecting, error, clearError } = useGame();
+  const [now, setNow] = React.useState(() => Date.now());
+
+  React.useEffect(() => {
+    if (!room) return;
+    const intervalId = setInterval(() => setNow(Date.now()), PRESENCE_REFRESH_MS);
+    return () => clearInterval(intervalId);
+  }, [room]);
+
+  const visibleError = showError ? error : null;
+
+  if (!isConnected && !isReconnecting && !visibleError && !room) {
     return null;
   }
 
   return (
-    <div className={`fixed top-4 right-4 z-50 ${className}`}>
-      {/* Connection Status */}
-      {!isConnected && (
-        <div className="bg-red-500 text-white px-4 py-2 rounded-lg shadow-lg mb-2">
-          <div className="flex items-center space-x-2">
-            <div className="w-2 h-2 bg-white rounded-full animate-pulse"></div>
-            <span className="text-sm font-medium">Disconnected</span>
+    <>
+      <div className={`fixed top-4 right-4 z-50 ${className}`}>
+        {/* Connection Status */}
+        {!isConnected && (
+          <div className="bg-red-500 text-white px-4 py-2 rounded-lg shadow-lg mb-2">
+            <div className="flex items-center space-x-2">
+              <div className="w-2 h-2 bg-white rounded-full animate-pulse"></div>
+              <span className="text-sm font-medium">Disconnected</span>
+            </div>
           </div>
-        </div>
-      )}
+        )}
 
-      {/* Reconnecting Status */}
-      {isReconnecting && (
-        <div className="bg-yellow-500 text-white px-4 py-2 rounded-lg shadow-lg mb-2">
-          <div className="flex items-center space-x-2">
-            <div className="w-2 h-2 bg-white rounded-full animate-spin"></div>
-            <span className="text-sm font-medium">Reconnecting...</span>
+        {/* Reconnecting Status */}
+        {isReconnecting && (
+          <div className="bg-yellow-500 text-white px-4 py-2 rounded-lg shadow-lg mb-2">
+            <div className="flex items-center space-x-2">
+              <div className="w-2 h-2 bg-white rounded-full animate-spin"></div>
+              <span className="text-sm font-medium">Reconnecting...</span>
+            </div>
           </div>
-        </div>
-      )}
+        )}
 
-      {/* Error Message */}
-      {error && (
-        <div className="bg-red-600 text-white px-4 py-3 rounded-lg shadow-lg mb-2 max-w-sm">
-          <div className="flex items-start justify-between">
-            <div className="flex-1">
-              <p className="text-sm font-medium">Error</p>
-              <p className="text-xs mt-1">{error}</p>
+        {/* Error Message */}
+        {visibleError && (
+          <div className="bg-red-600 text-white px-4 py-3 rounded-lg shadow-lg mb-2 max-w-sm">
+            <div className="flex items-start justify-between">
+              <div className="flex-1">
+                <p className="text-sm font-medium">Error</p>
+                <p className="text-xs mt-1">{visibleError}</p>
+              </div>
+              <button
+                onClick={clearError}
+                className="ml-2 text-white hover:text-gray-200 transition-colors"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
             </div>
-            <button
-              onClick={clearError}
-              className="ml-2 text-white hover:text-gray-200 transition-colors"
-            >
-              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-              </svg>
-            </button>
           </div>
+        )}
+      </div>
+
+      {/* Live presence of everyone at the table */}
+      {room && (
+        <div className="fixed bottom-4 right-4 z-40 bg-black/60 text-white px-3 py-2 rounded-lg shadow-lg backdrop-blur">
+          {getSeatOrder(room.players, room.seatOrder).map(playerId => {
+            const player = room.players[playerId];
+            const presence = getPresence(player, now);
+            return (
+              <div key={playerId} className="flex items-center space-x-2 text-xs py-0.5" title={PRESENCE_STYLES[presence].label}>
+                <div className={`w-2 h-2 rounded-full ${PRESENCE_STYLES[presence].dot}`}></div>
+                <span className={presence === 'offline' ? 'text-gray-400' : ''}>
+                  {player.name}{playerId === currentPlayerId && ' (you)'}
+                </span>
+              </div>
+            );
+          })}
         </div>
       )}
-    </div>
+    </>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,127 @@
+import React from 'react';
+import type { DeckDefinition } from '../types';
+import { MAX_CARD_COPIES, validateDeckDefinition } from '../utils/cardSystem';
+
+interface DeckEditorProps {
+  deck: DeckDefinition;
+  isEditable: boolean;
+  disabled?: boolean;
+  onChange: (deck: DeckDefinition) => void;
+}
+
+const ACTION_LABELS: Record<keyof DeckDefinition['action'], string> = {
+  freeze: 'Freeze',
+  flipThree: 'Flip Three',
+  secondChance: 'Second Chance',
+};
+
+const MODIFIER_LABELS: Record<keyof DeckDefinition['modifier'], string> = {
+  plus4: '+4',
+  plus6: '+6',
+  plus8: '+8',
+  plus10: '+10',
+  x2: '×2',
+};
+
+export const DeckEditor: React.FC<DeckEditorProps> = ({
+  deck,
+  isEditable,
+  disabled = false,
+  onChange,
+}) => {
+  const { errors } = validateDeckDefinition(deck);
+  const totalCards = [deck.number, deck.action, deck.modifier]
+    .flatMap(counts => Object.values<number>(counts))
+    .reduce((sum, count) => sum + count, 0);
+
+  // Clamp typed values so each count stays within the allowed range
+  const updateCount = <S extends keyof DeckDefinition>(section: S, key: string, value: string) => {
+    const count = Math.min(MAX_CARD_COPIES, Math.max(0, parseInt(value) || 0));
+    onChange({
+      ...deck,
+      [section]: { ...deck[section], [key]: count },
+    });
+  };
+
+  const renderSection = <S extends keyof DeckDefinition>(
+    title: string,
+    section: S,
+    labels: Record<string, string>
+  ) => (
+    <div style={{ marginBottom: '0.75rem' }}>
+      <div style={{ color: '#9ca3af', fontSize: '0.75rem', marginBottom: '0.375rem' }}>{title}</div>
+      <div style={{
+        display: 'grid',
+        gridTemplateColumns: 'repeat(auto-fill, minmax(90px, 1fr))',
+        gap: '0.5rem'
+      }}>
+        {Object.entries(labels).map(([key, label]) => {
+          const count = (deck[section] as Record<string, number>)[key] ?? 0;
+          return (
+            <label key={key} style={{
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'space-between',
+              gap: '0.375rem',
+              padding: '0.25rem 0.5rem',
+              borderRadius: '0.375rem',
+              backgroundColor: 'rgba(255, 255, 255, 0.05)',
+              color: 'white',
+              fontSize: '0.875rem'
+            }}>
+              <span>{label}</span>
+              {isEditable ? (
+                <input
+                  type="number"
+                  min={0}
+                  max={MAX_CARD_COPIES}
+                  value={count}
+                  onChange={(e) => updateCount(section, key, e.target.value)}
+                  disabled={disabled}
+                  style={{
+                    width: '3rem',
+                    padding: '0.125rem 0.25rem',
+                    borderRadius: '0.25rem',
+                    border: '1px solid rgba(255, 255, 255, 0.2)',
+                    backgroundColor: 'rgba(0, 0, 0, 0.3)',
+                    color: 'white'
+                  }}
+                />
+              ) : (
+                <span style={{ fontWeight: '600' }}>×{count}</span>
+              )}
+            </label>
+          );
+        })}
+      </div>
+    </div>
+  );
+
+  const numberLabels = Object.fromEntries(
+    Array.from({ length: 13 }, (_, value) => [String(value), String(value)])
+  );
+
+  return (
+    <div style={{
+      marginTop: '1rem',
+      padding: '1rem',
+      borderRadius: '0.5rem',
+      backgroundColor: 'rgba(0, 0, 0, 0.2)'
+    }}>
+      {renderSection('Number Cards', 'number', numberLabels)}
+      {renderSection('Action Cards', 'action', ACTION_LABELS)}
+      {renderSection('Modifier Cards', 'modifier', MODIFIER_LABELS)}
+
+      <div style={{ color: '#9ca3af', fontSize: '0.875rem' }}>
+        {totalCards} cards in the deck
+      </div>
+      {errors.map(error => (
+        <div key={error} style={{ color: '#f87171', fontSize: '0.875rem', marginTop: '0.25rem' }}>
+          ⚠️ {error}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default DeckEditor;
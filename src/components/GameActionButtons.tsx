@@ -1,5 +1,6 @@
 import React, { useState, useRef } from 'react';
 import { Button } from './index';
+import type { DrawRisk } from '../utils/cardSystem';
 
 interface GameActionButtonsProps {
   canHit: boolean;
@@ -11,6 +12,8 @@ interface GameActionButtonsProps {
   timeRemaining?: number;
   totalTime?: number;
   className?: string;
+  drawRisk?: DrawRisk | null; // Only passed when the room allows risk hints
+  currentScore?: number;
 }
 
 export const GameActionButtons: React.FC<GameActionButtonsProps> = ({
@@ -23,7 +26,10 @@ export const GameActionButtons: React.FC<GameActionButtonsProps> = ({
   timeRemaining = 30000,
   totalTime = 30000,
   className = '',
+  drawRisk = null,
+  currentScore = 0,
 }) => {
+  const [showRiskMeter, setShowRiskMeter] = useState(true);
   const [isHoveringHit, setIsHoveringHit] = useState(false);
   const [isHoveringStay, setIsHoveringStay] = useState(false);
   const [lastAction, setLastAction] = useState<'hit' | 'stay' | null>(null);
@@ -208,6 +214,40 @@ export const GameActionButtons: React.FC<GameActionButtonsProps> = ({
             )}
           </div>
         </div>
+
+        {/* Risk Meter (casual rooms only, each player can hide it) */}
+        {drawRisk && (
+          <div className="mt-3 text-center text-sm">
+            {showRiskMeter ? (
+              <div className="flex gap-4 justify-center items-center text-gray-300">
+                <span className={drawRisk.bustProbability >= 0.5 ? 'text-red-400 font-bold' : drawRisk.bustProbability >= 0.25 ? 'text-yellow-400 font-bold' : 'text-green-400 font-bold'}>
+                  💥 Bust {Math.round(drawRisk.bustProbability * 100)}%
+                </span>
+                <span>
+                  🎯 Hit EV {(currentScore + drawRisk.expectedScoreDelta).toFixed(1)}
+                </span>
+                <span>
+                  ✋ Stay {currentScore}
+                </span>
+                <button
+                  type="button"
+                  className="text-gray-500 hover:text-gray-300 underline"
+                  onClick={() => setShowRiskMeter(false)}
+                >
+                  Hide
+                </button>
+              </div>
+            ) : (
+              <button
+                type="button"
+                className="text-gray-500 hover:text-gray-300 underline"
+                onClick={() => setShowRiskMeter(true)}
+              >
+                📊 Show odds
+              </button>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,16 +1,27 @@
 import React from 'react';
-import { Button, TurnTimer, GameActionButtons, CardDeck, CardHand, TargetSelectionModal, ScoreDisplay, RoundSummary } from './index';
+import { Button, TurnTimer, GameActionButtons, CardDeck, CardPile, CardTracker, CardHand, TargetSelectionModal, ScoreDisplay, RoundSummary } from './index';
 import { useGame } from '../hooks/useGame';
-import type { Player, Card } from '../types';
+import { useTurnCountdown } from '../hooks/useTurnCountdown';
+import type { Player, Card, Room } from '../types';
+import { calculateDrawRisk, calculateHandScore, getUnseenCards } from '../utils/cardSystem';
+import { TURN_TIMER_SECONDS, getActingPlayerId, getSeatOrder, rankPlayers } from '../utils/gameRules';
+
+// Discards listed when the discard pile is opened
+const RECENT_DISCARDS_SHOWN = 12;
+
+// Extra time after a turn deadline before this client asks the server to
+// step in, and how often it asks again if nothing has happened
+const TURN_DEADLINE_GRACE_MS = 1500;
+const TURN_DEADLINE_RETRY_MS = 5000;
 
 interface GameBoardProps {
   onLeaveGame: () => void;
+  replayRoom?: Room; // Show this table read-only instead of the live game
 }
 
-export function GameBoard({ onLeaveGame }: GameBoardProps) {
+export function GameBoard({ onLeaveGame, replayRoom }: GameBoardProps) {
+  const game = useGame();
   const { 
-    room, 
-    currentPlayer, 
     hit, 
     stay, 
     leaveRoom,
@@ -18,79 +29,87 @@ export function GameBoard({ onLeaveGame }: GameBoardProps) {
     selectFlipThreeTarget,
     startNextRound,
     restartGame,
-    canHit, 
-    canStay, 
-    isMyTurn,
+    enforceTurnDeadline,
+    takeBackControl,
     isLoading, 
-    error,
-    requiresTargetSelection,
-    pendingAction
-  } = useGame();
+    error
+  } = game;
+
+  // A replay is watched from the spectator seat: no player, no moves
+  const isReplay = replayRoom !== undefined;
+  const room = isReplay ? replayRoom : game.room;
+  const currentPlayer = isReplay ? null : game.currentPlayer;
+  const canHit = !isReplay && game.canHit;
+  const canStay = !isReplay && game.canStay;
+  const isMyTurn = !isReplay && game.isMyTurn;
+
+  // A bot is playing our seat after we missed a turn deadline
+  const isAutoPiloted = !isReplay && currentPlayer?.autoPilot === true;
+
+  // The holder of the room's pending action card picks its target. This may be
+  // a card turned up during someone else's Flip Three.
+  const pendingAction = !isReplay && !isAutoPiloted && room?.pendingAction?.playerId === currentPlayer?.id
+    ? room?.pendingAction ?? null
+    : null;
+  const pendingCardId = pendingAction?.cardId ?? null;
+
+  // Turn length chosen by the host, in milliseconds
+  const turnTime = (room?.settings.turnTimerSeconds ?? TURN_TIMER_SECONDS) * 1000;
+
+  // Whoever must move next, and the deadline the server set for them
+  const actingPlayer = room ? room.players[getActingPlayerId(room) ?? ''] ?? null : null;
+  const turnDeadline = isReplay || room?.state !== 'playing' ? null : room?.turnDeadline ?? null;
+  const timeRemaining = useTurnCountdown(turnDeadline);
 
   const [showLeaveConfirm, setShowLeaveConfirm] = React.useState(false);
   const [flip7Celebration, setFlip7Celebration] = React.useState<string | null>(null);
-  const [timeRemaining, setTimeRemaining] = React.useState(30000);
   const [lastAction, setLastAction] = React.useState<string | null>(null);
   const [showTargetSelection, setShowTargetSelection] = React.useState(false);
 
   // Check if current player is host
   const isHost = currentPlayer?.isHost || false;
 
-  // Get sorted player list (current player first, then others)
+  // Get players in seat order, starting from the current player's seat
   const sortedPlayers = React.useMemo(() => {
     if (!room) return [];
     
-    return Object.values(room.players).sort((a, b) => {
-      // Current player first
-      if (a.id === currentPlayer?.id) return -1;
-      if (b.id === currentPlayer?.id) return 1;
-      // Then by join time
-      return new Date(a.joinedAt).getTime() - new Date(b.joinedAt).getTime();
-    });
+    const seats = getSeatOrder(room.players, room.seatOrder);
+    const mySeat = Math.max(seats.indexOf(currentPlayer?.id ?? ''), 0);
+    return [...seats.slice(mySeat), ...seats.slice(0, mySeat)].map(id => room.players[id]);
   }, [room, currentPlayer?.id]);
 
-  // Handle timeout with proper callback
-  const handleTimeout = React.useCallback(async () => {
-    if (!canStay) return;
-    setLastAction('Timeout - Auto Stay');
-    try {
-      await stay();
-    } catch (err) {
-      // Error handled by context
-    }
-  }, [canStay, stay]);
+  // Odds for the risk meter, computed from every card visible on the table
+  const drawRisk = React.useMemo(() => {
+    if (!room || !currentPlayer || !room.settings.showRiskHints) return null;
+    
+    const visibleCards = [
+      ...Object.values(room.players).flatMap(player => player.hand),
+      ...room.discardPile,
+    ];
+    return calculateDrawRisk(currentPlayer.hand, getUnseenCards(visibleCards, room.settings.deck), room.settings.flip7Bonus, room.settings.scoringMode);
+  }, [room, currentPlayer]);
 
-  // Timer effect for turn countdown
+  // Once the shared deadline passes, any client at the table asks the server
+  // to apply the room's timeout policy, so an absent player can't stall the game
   React.useEffect(() => {
-    if (!isMyTurn || !room || room.state !== 'playing') return;
-
-    const interval = setInterval(() => {
-      setTimeRemaining(prev => {
-        if (prev <= 0) {
-          // Use setTimeout to avoid calling during setState
-          setTimeout(() => handleTimeout(), 0);
-          return 30000; // Reset timer
-        }
-        return prev - 100;
-      });
-    }, 100);
+    if (!turnDeadline) return;
 
-    return () => clearInterval(interval);
-  }, [isMyTurn, room?.state, handleTimeout]);
+    let retry: ReturnType<typeof setInterval> | undefined;
+    const timeout = setTimeout(() => {
+      enforceTurnDeadline();
+      retry = setInterval(enforceTurnDeadline, TURN_DEADLINE_RETRY_MS);
+    }, Math.max(0, turnDeadline + TURN_DEADLINE_GRACE_MS - Date.now()));
 
-  // Reset timer when turn changes
-  React.useEffect(() => {
-    if (room?.currentTurn) {
-      setTimeRemaining(30000);
-    }
-  }, [room?.currentTurn]);
+    return () => {
+      clearTimeout(timeout);
+      clearInterval(retry);
+    };
+  }, [turnDeadline, enforceTurnDeadline]);
 
-  // Show target selection modal when required
+  // Show target selection modal whenever a new action card of ours needs a target
   React.useEffect(() => {
-    if (requiresTargetSelection && (pendingAction === 'freeze' || pendingAction === 'flipThree')) {
-      setShowTargetSelection(true);
-    }
-  }, [requiresTargetSelection, pendingAction]);
+    setShowTargetSelection(pendingCardId !== null);
+  }, [pendingCardId]);
 
   // Handle game actions with debounce
   const [isActionInProgress, setIsActionInProgress] = React.useState(false);
@@ -223,7 +242,7 @@ export function GameBoard({ onLeaveGame }: GameBoardProps) {
             }}>
               <span style={{ color: '#9ca3af', fontSize: '0.875rem' }}>Round</span>
               <span style={{ color: 'white', fontWeight: '600' }}>
-                {room.round} / {room.maxRounds}
+                {room.round} / {room.settings.maxRounds ?? '∞'}
               </span>
             </div>
             <div style={{
@@ -314,9 +333,8 @@ export function GameBoard({ onLeaveGame }: GameBoardProps) {
             gap: '0.75rem',
             flex: 1
           }}>
-            {sortedPlayers
-              .sort((a, b) => b.totalScore - a.totalScore) // Sort by total score
-              .map((player, index) => (
+            {rankPlayers(room.players, room.settings.tiePolicy) // Tied players share a rank
+              .map(({ player, rank }) => (
                 <div
                   key={player.id}
                   style={{
@@ -338,9 +356,9 @@ export function GameBoard({ onLeaveGame }: GameBoardProps) {
                     width: '2rem',
                     height: '2rem',
                     borderRadius: '50%',
-                    backgroundColor: index === 0 ? '#fbbf24' : 
-                                   index === 1 ? '#9ca3af' : 
-                                   index === 2 ? '#b45309' : '#6b7280',
+                    backgroundColor: rank === 1 ? '#fbbf24' : 
+                                   rank === 2 ? '#9ca3af' : 
+                                   rank === 3 ? '#b45309' : '#6b7280',
                     display: 'flex',
                     alignItems: 'center',
                     justifyContent: 'center',
@@ -349,7 +367,7 @@ export function GameBoard({ onLeaveGame }: GameBoardProps) {
                     color: 'white',
                     flexShrink: 0
                   }}>
-                    {index === 0 ? '🥇' : index === 1 ? '🥈' : index === 2 ? '🥉' : index + 1}
+                    {rank === 1 ? '🥇' : rank === 2 ? '🥈' : rank === 3 ? '🥉' : rank}
                   </div>
 
                   {/* Player Info */}
@@ -394,6 +412,18 @@ export function GameBoard({ onLeaveGame }: GameBoardProps) {
                           👑
                         </span>
                       )}
+                      {player.isBot && (
+                        <span style={{
+                          backgroundColor: '#8b5cf6',
+                          color: 'white',
+                          fontSize: '0.625rem',
+                          padding: '0.125rem 0.375rem',
+                          borderRadius: '0.25rem',
+                          fontWeight: '500'
+                        }}>
+                          🤖
+                        </span>
+                      )}
                       {player.isFrozen && (
                         <span style={{
                           backgroundColor: '#60a5fa',
@@ -419,17 +449,22 @@ export function GameBoard({ onLeaveGame }: GameBoardProps) {
               ))}
           </div>
 
+          {/* Unseen cards, unless the host chose a memory-only game */}
+          {room.settings.showCardTracker && (
+            <CardTracker room={room} currentPlayerId={currentPlayer?.id} />
+          )}
+
           {/* Leave Game Button */}
           <Button
             variant="danger"
             size="md"
-            onClick={() => setShowLeaveConfirm(true)}
+            onClick={() => isReplay ? onLeaveGame() : setShowLeaveConfirm(true)}
             style={{
               backgroundColor: 'rgba(220, 38, 38, 0.8)',
               backdropFilter: 'blur(10px)'
             }}
           >
-            Leave Game
+            {isReplay ? 'Exit Replay' : 'Leave Game'}
           </Button>
         </div>
 
@@ -473,20 +508,32 @@ export function GameBoard({ onLeaveGame }: GameBoardProps) {
               }}>
                 Room: {room.code}
               </div>
+              {room.state === 'playing' && (room.suddenDeathPlayerIds?.length ?? 0) > 0 && (
+                <div style={{
+                  backgroundColor: 'rgba(249, 115, 22, 0.2)',
+                  border: '1px solid rgba(249, 115, 22, 0.5)',
+                  padding: '0.5rem 1rem',
+                  borderRadius: '0.5rem',
+                  color: '#fdba74',
+                  fontSize: '0.875rem',
+                  fontWeight: '600'
+                }}>
+                  ⚔️ Sudden death for the tied leaders
+                </div>
+              )}
             </div>
 
-            {/* Turn Timer - Top Right */}
-            {isMyTurn && room.state === 'playing' && (
+            {/* Turn Timer - Top Right, counting down whoever must move */}
+            {turnDeadline && actingPlayer && (
               <div style={{
                 maxWidth: '280px',
                 minWidth: '240px'
               }}>
                 <TurnTimer
-                  timeRemaining={timeRemaining}
-                  totalTime={30000}
-                  isActive={isMyTurn}
-                  playerName={currentPlayer?.name || 'Unknown'}
-                  onTimeout={handleTimeout}
+                  deadline={turnDeadline}
+                  totalTime={turnTime}
+                  isActive={true}
+                  playerName={actingPlayer.name}
                 />
               </div>
             )}
@@ -516,7 +563,7 @@ export function GameBoard({ onLeaveGame }: GameBoardProps) {
                 {/* Deck */}
                 <div className="text-center">
                   <CardDeck 
-                    cards={room.deck.map((_, i) => ({
+                    cards={Array.from({ length: room.deckCount }, (_, i) => ({
                       id: `deck-${i}`,
                       type: 'number',
                       value: 0,
@@ -528,37 +575,15 @@ export function GameBoard({ onLeaveGame }: GameBoardProps) {
                   <p className="text-white text-sm mt-2">Deck</p>
                 </div>
 
-                {/* Discard Pile */}
-                {room.discardPile.length > 0 && (
-                  <div className="text-center">
-                    <div style={{
-                      width: '80px',
-                      height: '120px',
-                      backgroundColor: 'rgba(255, 255, 255, 0.1)',
-                      borderRadius: '0.5rem',
-                      border: '2px solid rgba(255, 255, 255, 0.2)',
-                      display: 'flex',
-                      alignItems: 'center',
-                      justifyContent: 'center',
-                      color: 'white',
-                      fontWeight: '600',
-                      fontSize: '0.875rem',
-                      boxShadow: '0 8px 25px rgba(0, 0, 0, 0.3)'
-                    }}>
-                      <div style={{
-                        position: 'absolute',
-                        top: '50%',
-                        left: '50%',
-                        transform: 'translate(-50%, -50%)',
-                        textAlign: 'center'
-                      }}>
-                        <div style={{ fontSize: '1.5rem', marginBottom: '0.25rem' }}>🗑️</div>
-                        <div>{room.discardPile.length}</div>
-                      </div>
-                    </div>
-                    <p className="text-white text-sm mt-2">Discard</p>
-                  </div>
-                )}
+                {/* Discard Pile; opens to show the latest cards */}
+                <div className="text-center">
+                  <CardPile
+                    cards={room.discardPile}
+                    recentCount={RECENT_DISCARDS_SHOWN}
+                    showCount={true}
+                  />
+                  <p className="text-white text-sm mt-2">Discard</p>
+                </div>
               </div>
             </div>
 
@@ -576,6 +601,7 @@ export function GameBoard({ onLeaveGame }: GameBoardProps) {
                   player={player}
                   isCurrentPlayer={player.id === currentPlayer?.id}
                   isMyTurn={room.currentTurn === player.id}
+                  isDealer={room.dealerId === player.id}
                   isGameActive={room.state === 'playing'}
                   flip7Celebration={flip7Celebration === player.id}
                 />
@@ -591,7 +617,7 @@ export function GameBoard({ onLeaveGame }: GameBoardProps) {
               marginTop: '2rem'
             }}>
               {/* Game Action Buttons */}
-              <div style={{ maxWidth: '500px', width: '100%' }}>
+              {!isReplay && <div style={{ maxWidth: '500px', width: '100%' }}>
                 <GameActionButtons
                   canHit={canHit && !isActionInProgress}
                   canStay={canStay && !isActionInProgress}
@@ -599,10 +625,32 @@ export function GameBoard({ onLeaveGame }: GameBoardProps) {
                   isLoading={isLoading || isActionInProgress}
                   onHit={handleHit}
                   onStay={handleStay}
-                  timeRemaining={timeRemaining}
-                  totalTime={30000}
+                  timeRemaining={turnDeadline ? timeRemaining : turnTime}
+                  totalTime={turnTime}
+                  drawRisk={drawRisk}
+                  currentScore={currentPlayer ? calculateHandScore(currentPlayer.hand, room.settings.flip7Bonus, room.settings.scoringMode).score : 0}
                 />
-              </div>
+              </div>}
+
+              {/* Bot takeover notice, shown after we missed a turn deadline */}
+              {isAutoPiloted && (
+                <div style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '1rem',
+                  backgroundColor: 'rgba(245, 158, 11, 0.15)',
+                  color: '#fcd34d',
+                  padding: '0.75rem 1.5rem',
+                  borderRadius: '0.5rem',
+                  border: '1px solid rgba(245, 158, 11, 0.4)',
+                  maxWidth: '500px'
+                }}>
+                  <span>🤖 You ran out of time, so a bot is playing for you.</span>
+                  <Button variant="primary" size="sm" onClick={takeBackControl}>
+                    Take back control
+                  </Button>
+                </div>
+              )}
 
               {/* Last Action Display */}
               {lastAction && (
@@ -758,10 +806,10 @@ export function GameBoard({ onLeaveGame }: GameBoardProps) {
         onSelectTarget={async (targetPlayerId) => {
           setShowTargetSelection(false);
           try {
-            if (pendingAction === 'freeze') {
-              await selectTarget(targetPlayerId);
-            } else if (pendingAction === 'flipThree') {
+            if (pendingAction?.type === 'flipThree') {
               await selectFlipThreeTarget(targetPlayerId);
+            } else {
+              await selectTarget(targetPlayerId);
             }
           } catch (error) {
             console.error('Failed to select target:', error);
@@ -769,12 +817,15 @@ export function GameBoard({ onLeaveGame }: GameBoardProps) {
         }}
         players={room.players}
         currentPlayerId={currentPlayer?.id || ''}
-        actionType={pendingAction === 'freeze' ? 'freeze' : 'flipThree'}
+        actionType={pendingAction?.type ?? 'freeze'}
+        freezeRule={room.settings.freezeRule}
+        flip7Bonus={room.settings.flip7Bonus}
+        scoringMode={room.settings.scoringMode}
       />
 
       {/* Round Summary Modal */}
       <RoundSummary
-        isOpen={room?.state === 'roundEnd' || room?.state === 'gameOver'}
+        isOpen={!isReplay && (room?.state === 'roundEnd' || room?.state === 'gameOver')}
         onClose={() => {}} // No close action for round summary
         room={room!}
         currentPlayerId={currentPlayer?.id || ''}
@@ -790,6 +841,7 @@ interface PlayerAreaProps {
   player: Player;
   isCurrentPlayer: boolean;
   isMyTurn: boolean;
+  isDealer: boolean;
   isGameActive: boolean;
   flip7Celebration: boolean;
 }
@@ -798,6 +850,7 @@ function PlayerArea({
   player, 
   isCurrentPlayer, 
   isMyTurn, 
+  isDealer,
   isGameActive,
   flip7Celebration 
 }: PlayerAreaProps) {
@@ -893,6 +946,22 @@ function PlayerArea({
                   TURN
                 </span>
               )}
+              {/* Dealer button */}
+              {isDealer && (
+                <span
+                  title="Dealer"
+                  style={{
+                    backgroundColor: 'white',
+                    color: 'black',
+                    fontSize: '0.75rem',
+                    padding: '0.125rem 0.5rem',
+                    borderRadius: '9999px',
+                    fontWeight: '700'
+                  }}
+                >
+                  D
+                </span>
+              )}
               {/* Frozen indicator */}
               {player.isFrozen && (
                 <span style={{
@@ -1,7 +1,43 @@
 import React from 'react';
-import { Button } from './index';
+import { Button, DeckEditor } from './index';
 import { useGame } from '../hooks/useGame';
-import type { Player } from '../types';
+import type { Player, DeckPreset, FreezeRule, ScoringMode, TiePolicy, TurnTimeoutPolicy } from '../types';
+import { DECK_PRESETS } from '../utils/cardSystem';
+import { getSeatOrder } from '../utils/gameRules';
+
+// Choices offered to the host for each room rule
+const TARGET_SCORE_OPTIONS = [100, 150, 200, 250, 300, 500].map(value => ({ value: String(value), label: `${value} points` }));
+const MAX_ROUNDS_OPTIONS = [
+  ...[3, 5, 7, 10].map(value => ({ value: String(value), label: `${value} rounds` })),
+  { value: 'unlimited', label: 'Unlimited' },
+];
+const FLIP_7_BONUS_OPTIONS = [0, 10, 15, 20, 25, 30].map(value => ({ value: String(value), label: `+${value} points` }));
+const TURN_TIMER_OPTIONS = [15, 30, 45, 60, 90].map(value => ({ value: String(value), label: `${value} seconds` }));
+const DECK_OPTIONS: { value: DeckPreset; label: string }[] = [
+  { value: 'official', label: 'Official' },
+  { value: 'noActions', label: 'No action cards' },
+  { value: 'doubleModifiers', label: 'Double modifiers' },
+  { value: 'highStakes', label: 'High stakes (extra ×2)' },
+  { value: 'custom', label: 'Custom' },
+];
+const FREEZE_RULE_OPTIONS: { value: FreezeRule; label: string }[] = [
+  { value: 'official', label: 'Official - banks points, out for the round' },
+  { value: 'legacy', label: 'Legacy - skips turns this round' },
+];
+const SCORING_MODE_OPTIONS: { value: ScoringMode; label: string }[] = [
+  { value: 'official', label: 'Official - ×2 numbers, then +N' },
+  { value: 'legacy', label: 'Legacy - ×2 numbers and +N' },
+];
+const TIE_POLICY_OPTIONS: { value: TiePolicy; label: string }[] = [
+  { value: 'suddenDeath', label: 'Sudden death - tied leaders play on' },
+  { value: 'mostFlip7s', label: 'Most Flip 7s wins' },
+  { value: 'shared', label: 'Shared win' },
+];
+const TURN_TIMEOUT_POLICY_OPTIONS: { value: TurnTimeoutPolicy; label: string }[] = [
+  { value: 'autoStay', label: 'Auto-stay' },
+  { value: 'autoSkip', label: 'Skip the turn' },
+  { value: 'botTakeover', label: 'Bot plays until they return' },
+];
 
 interface LobbyProps {
   onLeaveRoom: () => void;
@@ -12,6 +48,7 @@ export function Lobby({ onLeaveRoom }: LobbyProps) {
     room, 
     currentPlayer, 
     removePlayer,
+    updateRoomSettings,
     startGame, 
     isLoading, 
     error
@@ -41,15 +78,11 @@ export function Lobby({ onLeaveRoom }: LobbyProps) {
   // Check if current player is host
   const isHost = currentPlayer?.isHost || false;
 
-  // Get sorted player list (host first, then by join time)
+  // Get players in seat order; the first seat deals the first round
   const sortedPlayers = React.useMemo(() => {
     if (!room) return [];
     
-    return Object.values(room.players).sort((a, b) => {
-      if (a.isHost && !b.isHost) return -1;
-      if (!a.isHost && b.isHost) return 1;
-      return new Date(a.joinedAt).getTime() - new Date(b.joinedAt).getTime();
-    });
+    return getSeatOrder(room.players, room.seatOrder).map(id => room.players[id]);
   }, [room]);
 
   // Handle start game
@@ -289,22 +322,152 @@ export function Lobby({ onLeaveRoom }: LobbyProps) {
             <div>
               <span style={{ color: '#9ca3af', fontSize: '0.875rem' }}>Max Players:</span>
               <div style={{ color: 'white', fontWeight: '600' }}>
-                {Object.keys(room.players).length} / {room.maxRounds > 10 ? 'Unlimited' : '10+'}
-              </div>
-            </div>
-            <div>
-              <span style={{ color: '#9ca3af', fontSize: '0.875rem' }}>Max Rounds:</span>
-              <div style={{ color: 'white', fontWeight: '600' }}>
-                {room.maxRounds} rounds
+                {Object.keys(room.players).length} / 10+
               </div>
             </div>
+            <SettingSelect
+              label="Target Score"
+              value={String(room.settings.targetScore)}
+              options={TARGET_SCORE_OPTIONS}
+              isHost={isHost}
+              disabled={isLoading}
+              onChange={(value) => updateRoomSettings({ targetScore: Number(value) })}
+            />
+            <SettingSelect
+              label="Max Rounds"
+              value={room.settings.maxRounds === null ? 'unlimited' : String(room.settings.maxRounds)}
+              options={MAX_ROUNDS_OPTIONS}
+              isHost={isHost}
+              disabled={isLoading}
+              onChange={(value) => updateRoomSettings({ maxRounds: value === 'unlimited' ? null : Number(value) })}
+            />
+            <SettingSelect
+              label="Flip 7 Bonus"
+              value={String(room.settings.flip7Bonus)}
+              options={FLIP_7_BONUS_OPTIONS}
+              isHost={isHost}
+              disabled={isLoading}
+              onChange={(value) => updateRoomSettings({ flip7Bonus: Number(value) })}
+            />
+            <SettingSelect
+              label="Turn Timer"
+              value={String(room.settings.turnTimerSeconds)}
+              options={TURN_TIMER_OPTIONS}
+              isHost={isHost}
+              disabled={isLoading}
+              onChange={(value) => updateRoomSettings({ turnTimerSeconds: Number(value) })}
+            />
+            <SettingSelect
+              label="When Time Runs Out"
+              value={room.settings.turnTimeoutPolicy}
+              options={TURN_TIMEOUT_POLICY_OPTIONS}
+              isHost={isHost}
+              disabled={isLoading}
+              onChange={(value) => updateRoomSettings({ turnTimeoutPolicy: value as TurnTimeoutPolicy })}
+            />
+            <SettingSelect
+              label="Deck"
+              value={room.settings.deckPreset}
+              options={DECK_OPTIONS}
+              isHost={isHost}
+              disabled={isLoading}
+              onChange={(value) => {
+                const preset = value as DeckPreset;
+                // Custom starts from the current composition
+                updateRoomSettings(preset === 'custom'
+                  ? { deckPreset: preset }
+                  : { deckPreset: preset, deck: DECK_PRESETS[preset] });
+              }}
+            />
+            <SettingSelect
+              label="Freeze Rule"
+              value={room.settings.freezeRule}
+              options={FREEZE_RULE_OPTIONS}
+              isHost={isHost}
+              disabled={isLoading}
+              onChange={(value) => updateRoomSettings({ freezeRule: value as FreezeRule })}
+            />
+            <SettingSelect
+              label="Scoring"
+              value={room.settings.scoringMode}
+              options={SCORING_MODE_OPTIONS}
+              isHost={isHost}
+              disabled={isLoading}
+              onChange={(value) => updateRoomSettings({ scoringMode: value as ScoringMode })}
+            />
+            <SettingSelect
+              label="Ties"
+              value={room.settings.tiePolicy}
+              options={TIE_POLICY_OPTIONS}
+              isHost={isHost}
+              disabled={isLoading}
+              onChange={(value) => updateRoomSettings({ tiePolicy: value as TiePolicy })}
+            />
             <div>
               <span style={{ color: '#9ca3af', fontSize: '0.875rem' }}>Game Mode:</span>
               <div style={{ color: 'white', fontWeight: '600' }}>
                 {room.isSoloMode ? 'Solo Challenge' : 'Multiplayer'}
               </div>
             </div>
+            <div>
+              <span style={{ color: '#9ca3af', fontSize: '0.875rem' }}>Risk Meter:</span>
+              {isHost ? (
+                <label style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '0.5rem',
+                  color: 'white',
+                  fontWeight: '600',
+                  cursor: 'pointer'
+                }}>
+                  <input
+                    type="checkbox"
+                    checked={room.settings.showRiskHints}
+                    onChange={(e) => updateRoomSettings({ showRiskHints: e.target.checked })}
+                    disabled={isLoading}
+                  />
+                  {room.settings.showRiskHints ? 'Casual - odds shown' : 'Competitive - no hints'}
+                </label>
+              ) : (
+                <div style={{ color: 'white', fontWeight: '600' }}>
+                  {room.settings.showRiskHints ? 'Casual - odds shown' : 'Competitive - no hints'}
+                </div>
+              )}
+            </div>
+            <div>
+              <span style={{ color: '#9ca3af', fontSize: '0.875rem' }}>Card Tracker:</span>
+              {isHost ? (
+                <label style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '0.5rem',
+                  color: 'white',
+                  fontWeight: '600',
+                  cursor: 'pointer'
+                }}>
+                  <input
+                    type="checkbox"
+                    checked={room.settings.showCardTracker}
+                    onChange={(e) => updateRoomSettings({ showCardTracker: e.target.checked })}
+                    disabled={isLoading}
+                  />
+                  {room.settings.showCardTracker ? 'Unseen cards shown' : 'Memory only'}
+                </label>
+              ) : (
+                <div style={{ color: 'white', fontWeight: '600' }}>
+                  {room.settings.showCardTracker ? 'Unseen cards shown' : 'Memory only'}
+                </div>
+              )}
+            </div>
           </div>
+          {room.settings.deckPreset === 'custom' && (
+            <DeckEditor
+              deck={room.settings.deck}
+              isEditable={isHost}
+              disabled={isLoading}
+              onChange={(deck) => updateRoomSettings({ deckPreset: 'custom', deck })}
+            />
+          )}
         </div>
 
         {/* Action Buttons */}
@@ -485,6 +648,55 @@ export function Lobby({ onLeaveRoom }: LobbyProps) {
   );
 }
 
+// Room Setting Component - a dropdown for the host, plain text for everyone else
+interface SettingSelectProps {
+  label: string;
+  value: string;
+  options: { value: string; label: string }[];
+  isHost: boolean;
+  disabled: boolean;
+  onChange: (value: string) => void;
+}
+
+function SettingSelect({ label, value, options, isHost, disabled, onChange }: SettingSelectProps) {
+  const selected = options.find(option => option.value === value);
+
+  return (
+    <div>
+      <span style={{ color: '#9ca3af', fontSize: '0.875rem' }}>{label}:</span>
+      {isHost ? (
+        <select
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          disabled={disabled}
+          style={{
+            display: 'block',
+            width: '100%',
+            marginTop: '0.25rem',
+            padding: '0.375rem 0.5rem',
+            borderRadius: '0.375rem',
+            border: '1px solid rgba(255, 255, 255, 0.2)',
+            backgroundColor: 'rgba(0, 0, 0, 0.3)',
+            color: 'white',
+            fontWeight: '600'
+          }}
+        >
+          {!selected && <option value={value}>{value}</option>}
+          {options.map(option => (
+            <option key={option.value} value={option.value} style={{ color: 'black' }}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      ) : (
+        <div style={{ color: 'white', fontWeight: '600' }}>
+          {selected?.label ?? value}
+        </div>
+      )}
+    </div>
+  );
+}
+
 // Player Card Component
 interface PlayerCardProps {
   player: Player;
@@ -582,6 +794,19 @@ function PlayerCard({ player, isCurrentPlayer, isHost, onRemovePlayer, position
               Host
             </span>
           )}
+          {player.isBot && (
+            <span style={{
+              backgroundColor: '#8b5cf6',
+              color: 'white',
+              fontSize: '0.75rem',
+              padding: '0.125rem 0.5rem',
+              borderRadius: '0.25rem',
+              fontWeight: '500',
+              textTransform: 'capitalize'
+            }}>
+              🤖 {player.botDifficulty}
+            </span>
+          )}
         </div>
         
         <div style={{
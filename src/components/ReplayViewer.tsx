@@ -0,0 +1,161 @@
+import React from 'react';
+import { Button, Loading } from './index';
+import { GameBoard } from './GameBoard';
+import { useReplay } from '../hooks/useReplay';
+import { getRoundStarts } from '../utils/replay';
+
+interface ReplayViewerProps {
+  roomCode: string;
+  onExit: () => void;
+}
+
+// Time between moves while playing
+const PLAYBACK_INTERVAL_MS = 1200;
+
+export function ReplayViewer({ roomCode, onExit }: ReplayViewerProps) {
+  const { replay, loading, error } = useReplay(roomCode);
+  const [frameIndex, setFrameIndex] = React.useState(0);
+  const [isPlaying, setIsPlaying] = React.useState(false);
+
+  const frames = React.useMemo(() => replay?.frames ?? [], [replay]);
+  const roundStarts = React.useMemo(() => getRoundStarts(frames), [frames]);
+  const lastFrame = frames.length - 1;
+
+  // Advance one move at a time while playing, stopping at the end
+  React.useEffect(() => {
+    if (!isPlaying) return;
+    if (frameIndex >= lastFrame) {
+      setIsPlaying(false);
+      return;
+    }
+
+    const timeoutId = setTimeout(() => setFrameIndex(index => index + 1), PLAYBACK_INTERVAL_MS);
+    return () => clearTimeout(timeoutId);
+  }, [isPlaying, frameIndex, lastFrame]);
+
+  const step = (delta: number) => {
+    setIsPlaying(false);
+    setFrameIndex(index => Math.min(lastFrame, Math.max(0, index + delta)));
+  };
+
+  if (loading) {
+    return (
+      <div style={{
+        minHeight: '100vh',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        background: 'linear-gradient(135deg, #0f172a 0%, #1e293b 50%, #0f172a 100%)',
+        color: 'white'
+      }}>
+        <Loading size="lg" text={`Loading replay for room ${roomCode}...`} />
+      </div>
+    );
+  }
+
+  if (error || frames.length === 0) {
+    return (
+      <div style={{
+        minHeight: '100vh',
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: '1rem',
+        background: 'linear-gradient(135deg, #0f172a 0%, #1e293b 50%, #0f172a 100%)',
+        color: 'white'
+      }}>
+        <div style={{ color: '#f87171', fontSize: '1.125rem' }}>
+          {error ?? 'Nothing to replay'}
+        </div>
+        <Button variant="secondary" onClick={onExit}>Back to Home</Button>
+      </div>
+    );
+  }
+
+  const frame = frames[frameIndex];
+  // The round a frame belongs to is the last round start at or before it
+  const currentRoundStart = roundStarts.filter(start => start.frameIndex <= frameIndex).length - 1;
+
+  return (
+    <div>
+      <GameBoard onLeaveGame={onExit} replayRoom={frame.room} />
+
+      {/* Replay Controls */}
+      <div style={{
+        position: 'fixed',
+        bottom: '1rem',
+        left: '50%',
+        transform: 'translateX(-50%)',
+        zIndex: 40,
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        gap: '0.5rem',
+        padding: '0.75rem 1rem',
+        borderRadius: '0.75rem',
+        backgroundColor: 'rgba(0, 0, 0, 0.75)',
+        backdropFilter: 'blur(10px)',
+        border: '1px solid rgba(255, 255, 255, 0.1)',
+        color: 'white',
+        minWidth: '420px'
+      }}>
+        <div style={{ fontSize: '0.875rem', color: '#d1d5db', textAlign: 'center' }}>
+          {frame.effects.length > 0
+            ? frame.effects.map(effect => effect.message).join(' · ')
+            : frame.action
+              ? `${frame.room.players[frame.action.playerId]?.name ?? frame.action.playerId}: ${frame.action.action}`
+              : 'Table before the first move'}
+        </div>
+
+        <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+          <Button size="sm" variant="secondary" onClick={() => step(-1)} disabled={frameIndex === 0}>
+            ⏮ Back
+          </Button>
+          <Button
+            size="sm"
+            variant="primary"
+            onClick={() => setIsPlaying(playing => !playing)}
+            disabled={frameIndex >= lastFrame && !isPlaying}
+          >
+            {isPlaying ? '⏸ Pause' : '▶ Play'}
+          </Button>
+          <Button size="sm" variant="secondary" onClick={() => step(1)} disabled={frameIndex >= lastFrame}>
+            Next ⏭
+          </Button>
+          <select
+            value={currentRoundStart}
+            onChange={(e) => {
+              setIsPlaying(false);
+              setFrameIndex(roundStarts[parseInt(e.target.value)].frameIndex);
+            }}
+            disabled={roundStarts.length === 0}
+            style={{
+              padding: '0.25rem 0.5rem',
+              borderRadius: '0.375rem',
+              backgroundColor: 'rgba(255, 255, 255, 0.1)',
+              color: 'white',
+              border: '1px solid rgba(255, 255, 255, 0.2)'
+            }}
+          >
+            {currentRoundStart === -1 && <option value={-1}>Jump to round</option>}
+            {roundStarts.map((start, index) => (
+              <option key={start.frameIndex} value={index} style={{ color: 'black' }}>
+                Round {start.round}
+              </option>
+            ))}
+          </select>
+          <span style={{ fontSize: '0.75rem', color: '#9ca3af', whiteSpace: 'nowrap' }}>
+            Move {frameIndex} / {lastFrame}
+          </span>
+        </div>
+
+        {replay?.error && (
+          <div style={{ fontSize: '0.75rem', color: '#fbbf24' }}>
+            ⚠️ {replay.error}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 import React from 'react';
 import type { Player, Room } from '../types';
 import { Button } from './index';
+import { calculateHandScore } from '../utils/cardSystem';
+import { rankPlayers } from '../utils/gameRules';
 
 interface RoundSummaryProps {
   isOpen: boolean;
@@ -24,21 +26,30 @@ export const RoundSummary: React.FC<RoundSummaryProps> = ({
   const currentPlayer = room.players[currentPlayerId];
   const isHost = currentPlayer?.isHost || false;
   const isGameOver = room.state === 'gameOver';
-  const winner = room.winner ? room.players[room.winner] : null;
+  const { targetScore, maxRounds, flip7Bonus, scoringMode, tiePolicy } = room.settings;
+  // Older rooms only recorded a single winner
+  const winners = (room.winners?.length ? room.winners : room.winner ? [room.winner] : [])
+    .map(playerId => room.players[playerId])
+    .filter(Boolean);
+  const winnerNames = winners.map(player => player.name).join(' & ');
+  const suddenDeathPlayers = (room.suddenDeathPlayerIds ?? [])
+    .map(playerId => room.players[playerId])
+    .filter(Boolean);
 
-  // Sort players with proper tie-breaker logic
-  const sortedPlayers = Object.values(room.players).sort((a, b) => {
-    // Primary sort: highest total score
-    if (b.totalScore !== a.totalScore) {
-      return b.totalScore - a.totalScore;
-    }
-    // Tie-breaker 1: highest round score (recent performance)
-    if (b.roundScore !== a.roundScore) {
-      return b.roundScore - a.roundScore;
-    }
-    // Tie-breaker 2: fewest cards in hand (better hand management)
-    return a.hand.length - b.hand.length;
-  });
+  // Standings from the same ranking the game uses to pick the winner
+  const rankings = rankPlayers(room.players, tiePolicy);
+  const sortedPlayers = rankings.map(ranking => ranking.player);
+
+  // Each player's score math, e.g. "Numbers 20 → ×2 = 40 → +4 = 44"
+  const getScoreMath = (player: Player): string | null => {
+    if (player.status === 'busted') return null;
+    const { steps } = calculateHandScore(player.hand, flip7Bonus, scoringMode).breakdown;
+    if (steps.length < 2) return null;
+    return steps
+      .map((step, index) => index === 0 ? `${step.label} ${step.total}` : `${step.label} = ${step.total}`)
+      .join(' → ');
+  };
+  const scoreMath = Object.fromEntries(sortedPlayers.map(player => [player.id, getScoreMath(player)]));
 
   // Calculate game statistics
   const gameStats = {
@@ -57,13 +68,13 @@ export const RoundSummary: React.FC<RoundSummaryProps> = ({
             {isGameOver ? 'Game Over!' : 'Round Summary'}
           </h2>
           
-          {isGameOver && winner && (
+          {isGameOver && winners.length > 0 && (
             <div className="mb-4">
               <div className="text-yellow-400 text-xl font-bold mb-2">
-                🎉 {winner.name} Wins! 🎉
+                {winners.length > 1 ? `🤝 ${winnerNames} Share the Win! 🤝` : `🎉 ${winnerNames} Wins! 🎉`}
               </div>
               <div className="text-gray-300">
-                Final Score: {winner.totalScore} points
+                Final Score: {winners[0].totalScore} points
               </div>
             </div>
           )}
@@ -71,9 +82,17 @@ export const RoundSummary: React.FC<RoundSummaryProps> = ({
           {!isGameOver && (
             <div className="text-gray-300 mb-4">
               <div>Round {room.round} Complete</div>
-              <div className="text-sm text-gray-400 mt-1">
-                {room.maxRounds - room.round} rounds remaining
-              </div>
+              {suddenDeathPlayers.length > 0 ? (
+                <div className="text-sm text-orange-400 font-semibold mt-1">
+                  ⚔️ Sudden death! {suddenDeathPlayers.map(player => player.name).join(' & ')} are tied and play another round
+                </div>
+              ) : (
+                <div className="text-sm text-gray-400 mt-1">
+                  {maxRounds === null
+                    ? `First to ${targetScore} points wins`
+                    : `${Math.max(maxRounds - room.round, 0)} rounds remaining`}
+                </div>
+              )}
             </div>
           )}
           
@@ -81,7 +100,7 @@ export const RoundSummary: React.FC<RoundSummaryProps> = ({
             <div className="text-gray-300 mb-4">
               <div className="text-sm">
                 Game ended after {room.round} rounds
-                {room.round >= room.maxRounds ? ' (Max rounds reached)' : ' (200+ points achieved)'}
+                {maxRounds !== null && room.round >= maxRounds ? ' (Max rounds reached)' : ` (${targetScore}+ points achieved)`}
               </div>
             </div>
           )}
@@ -118,7 +137,7 @@ export const RoundSummary: React.FC<RoundSummaryProps> = ({
             {isGameOver ? 'Final Scores' : 'Round Scores'}
           </h3>
           <div className="space-y-2">
-            {sortedPlayers.map((player, index) => (
+            {rankings.map(({ player, rank, flip7Count }) => (
               <div
                 key={player.id}
                 className={`flex justify-between items-center p-3 rounded ${
@@ -127,7 +146,7 @@ export const RoundSummary: React.FC<RoundSummaryProps> = ({
               >
                 <div className="flex items-center gap-3">
                   <div className="text-lg font-bold text-gray-400">
-                    {index === 0 ? '🥇' : index === 1 ? '🥈' : index === 2 ? '🥉' : `#${index + 1}`}
+                    {rank === 1 ? '🥇' : rank === 2 ? '🥈' : rank === 3 ? '🥉' : `#${rank}`}
                   </div>
                   <div>
                     <div className="text-white font-semibold">
@@ -140,16 +159,24 @@ export const RoundSummary: React.FC<RoundSummaryProps> = ({
                       Round: {player.roundScore} | Total: {player.totalScore} | Cards: {player.hand.length}
                       {player.hasFlip7 && <span className="text-yellow-400 ml-2">🎉 Flip 7!</span>}
                       {player.status === 'busted' && <span className="text-red-400 ml-2">💥 Busted</span>}
+                      {tiePolicy === 'mostFlip7s' && flip7Count > 0 && (
+                        <span className="text-yellow-400 ml-2">Flip 7s: {flip7Count}</span>
+                      )}
                     </div>
+                    {scoreMath[player.id] && (
+                      <div className="text-xs text-gray-500">
+                        {scoreMath[player.id]}
+                      </div>
+                    )}
                   </div>
                 </div>
                 <div className="text-right">
                   <div className="text-xl font-bold text-white">
                     {player.totalScore}
                   </div>
-                  {player.totalScore >= 200 && (
+                  {player.totalScore >= targetScore && (
                     <div className="text-xs text-yellow-400 font-semibold">
-                      🎯 200+ Points!
+                      🎯 {targetScore}+ Points!
                     </div>
                   )}
                 </div>
@@ -162,13 +189,15 @@ export const RoundSummary: React.FC<RoundSummaryProps> = ({
         <div className="flex gap-3">
           {isGameOver ? (
             <>
-              <Button
-                variant="primary"
-                onClick={onRestartGame}
-                className="flex-1"
-              >
-                Play Again
-              </Button>
+              {isHost && (
+                <Button
+                  variant="primary"
+                  onClick={onRestartGame}
+                  className="flex-1"
+                >
+                  Play Again
+                </Button>
+              )}
               <Button
                 variant="secondary"
                 onClick={onClose}
@@ -196,6 +225,22 @@ export const RoundSummary: React.FC<RoundSummaryProps> = ({
             </>
           )}
         </div>
+
+        {isGameOver && (
+          <a
+            href={`/replay/${room.code}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="block text-center text-sm text-blue-300 hover:text-blue-200 mt-4"
+          >
+            🎬 Watch the replay
+          </a>
+        )}
+        {isGameOver && (
+          <p className="text-center text-xs text-gray-400 mt-1">
+            The replay link works until everyone has left the room
+          </p>
+        )}
       </div>
     </div>
   );
@@ -1,20 +1,25 @@
 import React from 'react';
-import type { Player } from '../types';
+import type { Player, ScoringMode } from '../types';
 import { calculateHandScore } from '../utils/cardSystem';
+import { FLIP_7_BONUS } from '../utils/gameRules';
 
 interface ScoreDisplayProps {
   player: Player;
   isCurrentPlayer: boolean;
+  flip7Bonus?: number;
+  scoringMode?: ScoringMode;
   className?: string;
 }
 
 export const ScoreDisplay: React.FC<ScoreDisplayProps> = ({
   player,
   isCurrentPlayer,
+  flip7Bonus = FLIP_7_BONUS,
+  scoringMode = 'official',
   className = '',
 }) => {
   // Calculate current hand score
-  const { score: currentScore, hasFlip7, breakdown } = calculateHandScore(player.hand);
+  const { score: currentScore, hasFlip7, breakdown } = calculateHandScore(player.hand, flip7Bonus, scoringMode);
   
   // Get round score (if player stayed, use their roundScore, otherwise calculate current)
   const roundScore = player.status === 'stayed' ? player.roundScore : currentScore;
@@ -55,13 +60,11 @@ export const ScoreDisplay: React.FC<ScoreDisplayProps> = ({
         <div className="mt-2 p-1 bg-gray-800 rounded text-xs" style={{ fontSize: '10px' }}>
           <div className="text-gray-400 mb-1">Breakdown:</div>
           <div className="space-y-0.5">
-            <div>Numbers: {breakdown.numberCards}</div>
-            {breakdown.modifierMultiplier > 1 && (
-              <div>×{breakdown.modifierMultiplier}</div>
-            )}
-            {breakdown.flip7Bonus > 0 && (
-              <div className="text-yellow-400">+{breakdown.flip7Bonus}</div>
-            )}
+            {breakdown.steps.map((step, index) => (
+              <div key={index} className={step.label.endsWith('Flip 7') ? 'text-yellow-400' : undefined}>
+                {index === 0 ? `${step.label}: ${step.total}` : `${step.label} = ${step.total}`}
+              </div>
+            ))}
           </div>
         </div>
       )}
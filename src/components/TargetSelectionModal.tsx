@@ -1,6 +1,8 @@
 import React from 'react';
 import { Modal } from './index';
-import type { Player } from '../types';
+import type { Player, FreezeRule, ScoringMode, PendingAction } from '../types';
+import { calculateHandScore } from '../utils/cardSystem';
+import { getActionTargets, getSecondChanceRecipients } from '../utils/gameRules';
 
 interface TargetSelectionModalProps {
   isOpen: boolean;
@@ -8,7 +10,10 @@ interface TargetSelectionModalProps {
   onSelectTarget: (targetPlayerId: string) => void;
   players: Record<string, Player>;
   currentPlayerId: string;
-  actionType: 'freeze' | 'flipThree';
+  actionType: PendingAction['type'];
+  freezeRule: FreezeRule;
+  flip7Bonus: number;
+  scoringMode: ScoringMode;
 }
 
 export const TargetSelectionModal: React.FC<TargetSelectionModalProps> = ({
@@ -18,25 +23,41 @@ export const TargetSelectionModal: React.FC<TargetSelectionModalProps> = ({
   players,
   currentPlayerId,
   actionType,
+  freezeRule,
+  flip7Bonus,
+  scoringMode,
 }) => {
-  const availableTargets = Object.values(players).filter(
-    player => 
-      player.id !== currentPlayerId && 
-      player.status === 'active'
-      // Allow targeting frozen players - you can freeze someone who's already frozen
-  );
+  // You may target yourself with Freeze or Flip Three; list yourself last so
+  // opponents come first. An extra Second Chance only goes to someone without one.
+  const targetIds = actionType === 'secondChance'
+    ? getSecondChanceRecipients(players, currentPlayerId)
+    : getActionTargets(players);
+  const availableTargets = targetIds
+    .map(id => players[id])
+    .sort((a, b) => Number(a.id === currentPlayerId) - Number(b.id === currentPlayerId));
 
   const getActionInfo = () => {
     switch (actionType) {
       case 'freeze':
         return {
           title: 'Choose Player to Freeze',
-          description: 'Select a player to skip their next turn',
+          description: freezeRule === 'official'
+            ? 'Your target banks the points in their hand now and is out for the rest of the round'
+            : 'Your target keeps their hand but skips every turn until the round ends',
           icon: '❄️',
           color: 'text-blue-600',
           bgColor: 'bg-blue-50',
           borderColor: 'border-blue-200',
         };
+      case 'secondChance':
+        return {
+          title: 'Pass On Your Extra Second Chance',
+          description: 'You can only hold one Second Chance - give this one to a player who has none',
+          icon: '🍀',
+          color: 'text-green-600',
+          bgColor: 'bg-green-50',
+          borderColor: 'border-green-200',
+        };
       case 'flipThree':
         return {
           title: 'Choose Player for Flip Three',
@@ -79,7 +100,9 @@ export const TargetSelectionModal: React.FC<TargetSelectionModalProps> = ({
           <p className="text-sm text-gray-600">
             {availableTargets.length === 0 
               ? 'No valid targets available'
-              : `Select one of the ${availableTargets.length} available players:`
+              : actionType === 'secondChance'
+                ? `Select one of the ${availableTargets.length} available players:`
+                : `Select one of the ${availableTargets.length} available players (you can pick yourself):`
             }
           </p>
         </div>
@@ -88,7 +111,7 @@ export const TargetSelectionModal: React.FC<TargetSelectionModalProps> = ({
           <div className="text-center py-8">
             <div className="text-gray-500 text-lg mb-2">No valid targets</div>
             <div className="text-gray-400 text-sm">
-              All other players are either busted, stayed, or frozen
+              Everyone has either busted or stayed
             </div>
             <button
               onClick={onClose}
@@ -118,6 +141,11 @@ export const TargetSelectionModal: React.FC<TargetSelectionModalProps> = ({
                     <div>
                       <div className="font-semibold text-gray-900">
                         {player.name}
+                        {player.id === currentPlayerId && (
+                          <span className="ml-2 text-xs bg-gray-100 text-gray-700 px-2 py-1 rounded">
+                            You
+                          </span>
+                        )}
                         {player.isFrozen && (
                           <span className="ml-2 text-xs bg-blue-100 text-blue-800 px-2 py-1 rounded">
                             ❄️ Frozen
@@ -126,6 +154,9 @@ export const TargetSelectionModal: React.FC<TargetSelectionModalProps> = ({
                       </div>
                       <div className="text-sm text-gray-500">
                         Score: {player.totalScore} | Cards: {player.hand.length}
+                        {actionType === 'freeze' && freezeRule === 'official' && (
+                          <> | Banks {calculateHandScore(player.hand, flip7Bonus, scoringMode).score} pts</>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -194,11 +194,10 @@ export const TurnBasedGameDemo: React.FC<TurnBasedGameDemoProps> = ({ className
               <div className="bg-gray-800 rounded-lg p-4">
                 <h3 className="text-lg font-semibold text-white mb-3">Turn Timer</h3>
                 <TurnTimer
-                  timeRemaining={timeRemaining}
+                  deadline={Date.now() + timeRemaining}
                   totalTime={30000}
                   isActive={isMyTurn}
                   playerName={players.find(p => p.id === currentTurn)?.name || 'Unknown'}
-                  onTimeout={handleTimeout}
                 />
               </div>
 
@@ -1,46 +1,22 @@
-import React, { useEffect, useState } from 'react';
+import React from 'react';
+import { useTurnCountdown } from '../hooks/useTurnCountdown';
 
 interface TurnTimerProps {
-  timeRemaining: number; // milliseconds
+  deadline: number | null; // epoch milliseconds, shared by every client
   totalTime: number; // milliseconds
   isActive: boolean;
   playerName: string;
-  onTimeout?: () => void;
   className?: string;
 }
 
 export const TurnTimer: React.FC<TurnTimerProps> = ({
-  timeRemaining,
+  deadline,
   totalTime,
   isActive,
   playerName,
-  onTimeout,
   className = '',
 }) => {
-  const [localTimeRemaining, setLocalTimeRemaining] = useState(timeRemaining);
-
-  // Update local time when props change
-  useEffect(() => {
-    setLocalTimeRemaining(timeRemaining);
-  }, [timeRemaining]);
-
-  // Countdown effect
-  useEffect(() => {
-    if (!isActive || localTimeRemaining <= 0) return;
-
-    const interval = setInterval(() => {
-      setLocalTimeRemaining(prev => {
-        const newTime = prev - 100;
-        if (newTime <= 0) {
-          onTimeout?.();
-          return 0;
-        }
-        return newTime;
-      });
-    }, 100);
-
-    return () => clearInterval(interval);
-  }, [isActive, localTimeRemaining, onTimeout]);
+  const localTimeRemaining = useTurnCountdown(isActive ? deadline : null);
 
   // Calculate progress percentage
   const progress = Math.max(0, Math.min(100, (localTimeRemaining / totalTime) * 100));
@@ -4,12 +4,15 @@ export { default as CardDeck } from './CardDeck';
 export { default as CardDemo } from './CardDemo';
 export { default as CardHand } from './CardHand';
 export { default as CardPile } from './CardPile';
+export { default as CardTracker } from './CardTracker';
+export { default as DeckEditor } from './DeckEditor';
 export { ConnectionStatus } from './ConnectionStatus';
 export { default as GameActionButtons } from './GameActionButtons';
 export { GameBoard } from './GameBoard';
 export { default as Loading } from './Loading';
 export { Lobby } from './Lobby';
 export { default as Modal } from './Modal';
+export { ReplayViewer } from './ReplayViewer';
 export { default as RoundSummary } from './RoundSummary';
 export { default as ScoreDisplay } from './ScoreDisplay';
 export { default as TargetSelectionModal } from './TargetSelectionModal';
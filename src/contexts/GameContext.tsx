@@ -1,11 +1,17 @@
 import React, { useReducer, useEffect, useCallback } from 'react';
 import type { ReactNode } from 'react';
 import { useFirebaseRoom } from '../hooks/useFirebaseRoom';
-import { processHitAction, processStayAction } from '../utils/gameRules';
-import { updateRoom } from '../services/firebaseData';
+import { isVersionConflict, submitPlayerAction, submitTurnTimeout } from '../services/gameActions';
+import type { PlayerActionResponse } from '../services/gameActions';
+import { getRoom, releaseAutoPilot, updatePlayerConnection } from '../services/firebaseData';
+import { reconnectionService } from '../services/reconnectionService';
+import { clearSeatToken, createSeatSecret, hashSeatSecret, loadSeatToken, saveSeatToken } from '../services/seatSession';
+import type { SeatToken } from '../services/seatSession';
 import { GameContext } from './GameContextTypes';
 import type { GameContextState, GameContextAction, GameContextType } from './GameContextTypes';
-import type { Player } from '../types';
+import type { PlayerIntent, PlayerIntentAction, SoloOptions, RoomSettings } from '../types';
+import { canReapplyIntent } from '../utils/gameRules';
+import { HEARTBEAT_INTERVAL_MS } from '../utils/presence';
 
 // Initial state
 const initialState: GameContextState = {
@@ -93,6 +99,7 @@ interface GameProviderProps {
 export function GameProvider({ children }: GameProviderProps) {
   const [state, dispatch] = useReducer(gameReducer, initialState);
   const [roomCode, setRoomCode] = React.useState<string | null>(null);
+  const [savedSeat, setSavedSeat] = React.useState<{ token: SeatToken; playerName: string } | null>(null);
   
   // Firebase room hook
   const {
@@ -103,10 +110,8 @@ export function GameProvider({ children }: GameProviderProps) {
     joinExistingRoom,
     leaveRoom: firebaseLeaveRoom,
     removePlayerFromRoom,
-    updatePlayerConnectionStatus,
+    updateSettingsInRoom,
     markPlayerAsDisconnected,
-    cleanupDisconnectedPlayers,
-    startGameInRoom,
     clearError: clearFirebaseError,
     refreshRoom,
   } = useFirebaseRoom(roomCode || undefined);
@@ -153,12 +158,14 @@ export function GameProvider({ children }: GameProviderProps) {
     const isMyTurn = firebaseRoom.currentTurn === state.currentPlayerId;
     
     // More lenient canHit logic - don't disable during loading if it was previously enabled
+    // A bot playing the seat after a missed deadline keeps the moves until control is taken back
     const canHit = isMyTurn && 
                    currentPlayer.status === 'active' && 
                    firebaseRoom.state === 'playing' &&
-                   !currentPlayer.isFrozen; // Add frozen check
+                   !currentPlayer.isFrozen && // Add frozen check
+                   !currentPlayer.autoPilot;
     
-    const canStay = isMyTurn && currentPlayer.status === 'active' && firebaseRoom.state === 'playing';
+    const canStay = isMyTurn && currentPlayer.status === 'active' && firebaseRoom.state === 'playing' && !currentPlayer.autoPilot;
 
     console.log('🎮 Game actions update:', {
       isMyTurn,
@@ -220,7 +227,8 @@ export function GameProvider({ children }: GameProviderProps) {
     };
   }, []);
 
-  // Tab close detection and cleanup
+  // Tab close detection. The write rarely completes as the tab goes away;
+  // the server's presence sweep catches the seats it misses.
   useEffect(() => {
     const handleBeforeUnload = async () => {
       if (roomCode && state.currentPlayerId) {
@@ -233,56 +241,131 @@ export function GameProvider({ children }: GameProviderProps) {
       }
     };
 
-    const handleVisibilityChange = async () => {
-      if (roomCode && state.currentPlayerId) {
-        try {
-          // Update connection status based on page visibility
-          const isVisible = !document.hidden;
-          await updatePlayerConnectionStatus(roomCode, state.currentPlayerId, isVisible);
-        } catch (error) {
-          console.error('Failed to update connection status:', error);
-        }
-      }
-    };
-
     window.addEventListener('beforeunload', handleBeforeUnload);
-    document.addEventListener('visibilitychange', handleVisibilityChange);
 
     return () => {
       window.removeEventListener('beforeunload', handleBeforeUnload);
-      document.removeEventListener('visibilitychange', handleVisibilityChange);
     };
-  }, [roomCode, state.currentPlayerId, markPlayerAsDisconnected, updatePlayerConnectionStatus]);
+  }, [roomCode, state.currentPlayerId, markPlayerAsDisconnected]);
 
-  // Periodic cleanup of disconnected players
+  // Presence heartbeat: ping lastSeen while the game is open, and straight
+  // away when the tab comes back into view
   useEffect(() => {
-    if (!roomCode) return;
+    if (!roomCode || !state.currentPlayerId) return;
 
-    const cleanupInterval = setInterval(async () => {
+    const playerId = state.currentPlayerId;
+    const sendHeartbeat = async () => {
       try {
-        await cleanupDisconnectedPlayers(roomCode, 5); // 5 minutes timeout
+        await updatePlayerConnection(roomCode, playerId, true);
       } catch (error) {
-        console.error('Failed to cleanup disconnected players:', error);
+        console.error('Failed to send heartbeat:', error);
       }
-    }, 60000); // Run every minute
+    };
+
+    const handleVisibilityChange = () => {
+      if (!document.hidden) {
+        sendHeartbeat();
+      }
+    };
+
+    sendHeartbeat();
+    const heartbeatInterval = setInterval(sendHeartbeat, HEARTBEAT_INTERVAL_MS);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
 
     return () => {
-      clearInterval(cleanupInterval);
+      clearInterval(heartbeatInterval);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
     };
-  }, [roomCode, cleanupDisconnectedPlayers]);
+  }, [roomCode, state.currentPlayerId]);
+
+  // Reclaim the seat saved in this browser and enter its room
+  const resumeSeat = useCallback(async (token: SeatToken) => {
+    try {
+      dispatch({ type: 'SET_LOADING', payload: true });
+      dispatch({ type: 'SET_ERROR', payload: null });
+
+      const seatRoom = await reconnectionService.reclaimSeat(token);
+      setSavedSeat(null);
+      if (!seatRoom) {
+        clearSeatToken();
+        dispatch({
+          type: 'SET_ERROR',
+          payload: `Your seat in room ${token.roomCode} is no longer available`,
+        });
+        return;
+      }
+
+      saveSeatToken(token);
+      setRoomCode(token.roomCode);
+      dispatch({
+        type: 'SET_CURRENT_PLAYER',
+        payload: { playerId: token.playerId, player: seatRoom.players[token.playerId] },
+      });
+    } catch (error) {
+      dispatch({
+        type: 'SET_ERROR',
+        payload: error instanceof Error ? error.message : 'Failed to rejoin room',
+      });
+    } finally {
+      dispatch({ type: 'SET_LOADING', payload: false });
+    }
+  }, []);
+
+  // Pick up a seat saved before the page loaded. A reload of the tab that
+  // held the seat rejoins straight away; other tabs are offered the seat.
+  useEffect(() => {
+    const saved = loadSeatToken();
+    if (!saved) return;
+
+    if (saved.isReload) {
+      resumeSeat(saved.token);
+      return;
+    }
+
+    let cancelled = false;
+    reconnectionService.findSavedSeat(saved.token)
+      .then(seatRoom => {
+        if (cancelled) return;
+        if (!seatRoom) {
+          clearSeatToken();
+          return;
+        }
+        setSavedSeat({ token: saved.token, playerName: seatRoom.players[saved.token.playerId].name });
+      })
+      .catch(error => {
+        console.error('Failed to look up saved seat:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [resumeSeat]);
+
+  const resumeSavedSeat = useCallback(async () => {
+    if (!savedSeat) return;
+    await resumeSeat(savedSeat.token);
+  }, [savedSeat, resumeSeat]);
+
+  const dismissSavedSeat = useCallback(() => {
+    clearSeatToken();
+    setSavedSeat(null);
+  }, []);
 
   // Room management functions
-  const createRoom = useCallback(async (hostName: string, isSoloMode: boolean = false) => {
+  const createRoom = useCallback(async (hostName: string, isSoloMode: boolean = false, soloOptions?: SoloOptions) => {
     try {
       dispatch({ type: 'SET_LOADING', payload: true });
       dispatch({ type: 'SET_ERROR', payload: null });
       
-      const newRoom = await createNewRoom(hostName, isSoloMode);
+      const secret = createSeatSecret();
+      const newRoom = await createNewRoom(hostName, isSoloMode, soloOptions, await hashSeatSecret(secret));
       setRoomCode(newRoom.code);
       
       // Set current player as host
       const hostId = Object.keys(newRoom.players).find(id => newRoom.players[id].isHost);
       if (hostId) {
+        saveSeatToken({ roomCode: newRoom.code, playerId: hostId, secret });
+        setSavedSeat(null);
         dispatch({
           type: 'SET_CURRENT_PLAYER',
           payload: { playerId: hostId, player: newRoom.players[hostId] },
@@ -303,13 +386,16 @@ export function GameProvider({ children }: GameProviderProps) {
       dispatch({ type: 'SET_LOADING', payload: true });
       dispatch({ type: 'SET_ERROR', payload: null });
       
-      const joinedRoom = await joinExistingRoom(roomCode, playerName);
+      const secret = createSeatSecret();
+      const joinedRoom = await joinExistingRoom(roomCode, playerName, await hashSeatSecret(secret));
       setRoomCode(roomCode);
       
       // Find the player we just joined as
       const playerId = Object.keys(joinedRoom.players).find(id => joinedRoom.players[id].name === playerName);
       
       if (playerId) {
+        saveSeatToken({ roomCode, playerId, secret });
+        setSavedSeat(null);
         dispatch({
           type: 'SET_CURRENT_PLAYER',
           payload: { playerId, player: joinedRoom.players[playerId] },
@@ -330,7 +416,8 @@ export function GameProvider({ children }: GameProviderProps) {
     
     try {
       dispatch({ type: 'SET_LOADING', payload: true });
-      await firebaseLeaveRoom(roomCode, state.currentPlayerId);
+      await firebaseLeaveRoom(roomCode);
+      clearSeatToken();
       setRoomCode(null);
       dispatch({ type: 'RESET_STATE' });
     } catch (error) {
@@ -362,6 +449,66 @@ export function GameProvider({ children }: GameProviderProps) {
     }
   }, [roomCode, state.currentPlayerId, removePlayerFromRoom]);
 
+  // Host room settings
+  const updateRoomSettings = useCallback(async (settings: Partial<RoomSettings>) => {
+    if (!roomCode || !state.currentPlayerId) return;
+    
+    try {
+      dispatch({ type: 'SET_ERROR', payload: null });
+      
+      await updateSettingsInRoom(roomCode, state.currentPlayerId, settings);
+    } catch (error) {
+      dispatch({
+        type: 'SET_ERROR',
+        payload: error instanceof Error ? error.message : 'Failed to update settings',
+      });
+    }
+  }, [roomCode, state.currentPlayerId, updateSettingsInRoom]);
+
+  // Send a move to the server and reflect its outcome in the UI state. The
+  // move carries the room version it was chosen on; if another write landed
+  // first, re-read the room and send it again only if it still applies.
+  const sendPlayerAction = useCallback(async (
+    action: PlayerIntentAction,
+    targetPlayerId?: string
+  ) => {
+    if (!firebaseRoom || !state.currentPlayerId) return;
+
+    const intent: PlayerIntent = {
+      roomCode: firebaseRoom.code,
+      playerId: state.currentPlayerId,
+      action,
+      targetPlayerId,
+      expectedVersion: firebaseRoom.version,
+    };
+
+    let response: PlayerActionResponse;
+    try {
+      response = await submitPlayerAction(intent);
+    } catch (error) {
+      if (!isVersionConflict(error)) throw error;
+
+      const latestRoom = await getRoom(firebaseRoom.code);
+      if (!latestRoom || !canReapplyIntent(firebaseRoom, latestRoom, intent)) {
+        throw new Error('The table changed before your move arrived');
+      }
+      console.warn(`Room moved on to version ${latestRoom.version}; sending ${action} again`);
+      response = await submitPlayerAction({ ...intent, expectedVersion: latestRoom.version });
+    }
+
+    dispatch({
+      type: 'SET_UI_STATE',
+      payload: {
+        lastAction: response.message,
+        requiresTargetSelection: response.requiresTargetSelection,
+        // The action card waiting for a target is the last effect, after the draw
+        pendingAction: response.requiresTargetSelection
+          ? response.effects[response.effects.length - 1]?.type || null
+          : null,
+      },
+    });
+  }, [firebaseRoom, state.currentPlayerId]);
+
   // Game action functions
   const hit = useCallback(async () => {
     console.log('🔵 Hit function called');
@@ -423,85 +570,8 @@ export function GameProvider({ children }: GameProviderProps) {
     dispatch({ type: 'SET_ERROR', payload: null });
 
     try {
-      // Use the processHitAction from gameRules for consistent logic
-      const result = processHitAction(firebaseRoom, state.currentPlayerId);
-      
-      if (!result.success) {
-        console.log('❌ Hit action failed:', result.message);
-        dispatch({
-          type: 'SET_ERROR',
-          payload: result.message,
-        });
-        return;
-      }
-
-      if (!result.updatedRoom) {
-        console.log('❌ No updated room in result');
-        dispatch({
-          type: 'SET_ERROR',
-          payload: "Failed to process hit action",
-        });
-        return;
-      }
-
-      console.log('✅ Hit action successful, updating Firebase');
-      
-      // Optimized Firebase update - only send changed fields
-      const updates: any = {};
-
-      if (result.updatedRoom.players) {
-        updates.players = result.updatedRoom.players;
-      }
-      if (result.updatedRoom.deck) {
-        updates.deck = result.updatedRoom.deck;
-      }
-      if (result.updatedRoom.discardPile) {
-        updates.discardPile = result.updatedRoom.discardPile;
-      }
-      if (result.updatedRoom.currentTurn !== firebaseRoom.currentTurn) {
-        updates.currentTurn = result.updatedRoom.currentTurn;
-      }
-      if (result.updatedRoom.state && result.updatedRoom.state !== firebaseRoom.state) {
-        updates.state = result.updatedRoom.state;
-      }
-      if (result.updatedRoom.round !== undefined && result.updatedRoom.round !== firebaseRoom.round) {
-        updates.round = result.updatedRoom.round;
-      }
-
-      // Fire and update - don't wait for completion for better responsiveness
-      updateRoom(firebaseRoom.code, updates).catch(error => {
-        console.error('❌ Firebase update failed:', error);
-        dispatch({
-          type: 'SET_ERROR',
-          payload: 'Failed to update game state',
-        });
-      });
-      
-      console.log('✅ Firebase update initiated');
-
-      // Update UI state immediately for better user experience
-      if (result.requiresTargetSelection) {
-        console.log('🎯 Requires target selection');
-        dispatch({
-          type: 'SET_UI_STATE',
-          payload: { 
-            lastAction: result.message,
-            requiresTargetSelection: true,
-            pendingAction: result.effects?.[0]?.type || null,
-          },
-        });
-      } else {
-        console.log('✅ Updating UI state with message:', result.message);
-        dispatch({
-          type: 'SET_UI_STATE',
-          payload: { 
-            lastAction: result.message,
-            requiresTargetSelection: false,
-            pendingAction: null,
-          },
-        });
-      }
-
+      // The server runs processHitAction and writes the resulting state
+      await sendPlayerAction('hit');
     } catch (error) {
       console.log('❌ Hit function error:', error);
       dispatch({
@@ -510,11 +580,10 @@ export function GameProvider({ children }: GameProviderProps) {
       });
     } finally {
       console.log('🏁 Hit function completed');
-      // Clear loading state immediately for better responsiveness
       dispatch({ type: 'SET_LOADING', payload: false });
     }
 
-  }, [firebaseRoom, state.currentPlayerId]);
+  }, [firebaseRoom, state.currentPlayerId, state.isLoading, sendPlayerAction]);
 
   // Handle target selection for Freeze card
   const selectTarget = useCallback(async (targetPlayerId: string) => {
@@ -524,56 +593,8 @@ export function GameProvider({ children }: GameProviderProps) {
       dispatch({ type: 'SET_LOADING', payload: true });
       dispatch({ type: 'SET_ERROR', payload: null });
       
-      // Import the handleFreezeAction function
-      const { handleFreezeAction } = await import('../utils/gameRules');
-      
-      const currentPlayer = firebaseRoom.players[state.currentPlayerId];
-      const newHand = currentPlayer.hand; // The Freeze card is already in hand
-      
-      const result = handleFreezeAction(firebaseRoom, state.currentPlayerId, targetPlayerId, newHand, firebaseRoom.deck);
-      
-      if (result.success && result.updatedRoom) {
-        // Update Firebase with the new room state
-        const updates: any = {};
-        if (result.updatedRoom.players) updates.players = result.updatedRoom.players;
-        if (result.updatedRoom.deck) updates.deck = result.updatedRoom.deck;
-        if (result.updatedRoom.discardPile) updates.discardPile = result.updatedRoom.discardPile;
-        if (result.updatedRoom.currentTurn) updates.currentTurn = result.updatedRoom.currentTurn;
-        if (result.updatedRoom.state) updates.state = result.updatedRoom.state;
-        if (result.updatedRoom.round) updates.round = result.updatedRoom.round;
-        
-        // Retry logic for better reliability
-        let retries = 0;
-        const maxRetries = 3;
-        
-        while (retries < maxRetries) {
-          try {
-            await updateRoom(firebaseRoom.code, updates);
-            break; // Success, exit retry loop
-          } catch (error) {
-            retries++;
-            if (retries >= maxRetries) {
-              throw error; // Re-throw if all retries failed
-            }
-            // Wait a bit before retrying
-            await new Promise(resolve => setTimeout(resolve, 100 * retries));
-          }
-        }
-        
-        dispatch({
-          type: 'SET_UI_STATE',
-          payload: { 
-            lastAction: result.message,
-            requiresTargetSelection: false,
-            pendingAction: null,
-          },
-        });
-      } else {
-        dispatch({
-          type: 'SET_ERROR',
-          payload: result.message,
-        });
-      }
+      // The server resolves whichever action card is pending on the room
+      await sendPlayerAction('selectTarget', targetPlayerId);
     } catch (error) {
       dispatch({
         type: 'SET_ERROR',
@@ -582,75 +603,10 @@ export function GameProvider({ children }: GameProviderProps) {
     } finally {
       dispatch({ type: 'SET_LOADING', payload: false });
     }
-  }, [firebaseRoom, state.currentPlayerId]);
+  }, [firebaseRoom, state.currentPlayerId, sendPlayerAction]);
 
   // Handle Flip Three target selection
-  const selectFlipThreeTarget = useCallback(async (targetPlayerId: string) => {
-    if (!firebaseRoom || !state.currentPlayerId) return;
-    
-    try {
-      dispatch({ type: 'SET_LOADING', payload: true });
-      dispatch({ type: 'SET_ERROR', payload: null });
-      
-      // Import the handleFlipThreeAction function
-      const { handleFlipThreeAction } = await import('../utils/gameRules');
-      
-      const currentPlayer = firebaseRoom.players[state.currentPlayerId];
-      const newHand = currentPlayer.hand; // The Flip Three card is already in hand
-      
-      const result = handleFlipThreeAction(firebaseRoom, state.currentPlayerId, targetPlayerId, newHand, firebaseRoom.deck);
-      
-      if (result.success && result.updatedRoom) {
-        // Update Firebase with the new room state
-        const updates: any = {};
-        if (result.updatedRoom.players) updates.players = result.updatedRoom.players;
-        if (result.updatedRoom.deck) updates.deck = result.updatedRoom.deck;
-        if (result.updatedRoom.discardPile) updates.discardPile = result.updatedRoom.discardPile;
-        if (result.updatedRoom.currentTurn) updates.currentTurn = result.updatedRoom.currentTurn;
-        if (result.updatedRoom.state) updates.state = result.updatedRoom.state;
-        if (result.updatedRoom.round) updates.round = result.updatedRoom.round;
-        
-        // Retry logic for better reliability
-        let retries = 0;
-        const maxRetries = 3;
-        
-        while (retries < maxRetries) {
-          try {
-            await updateRoom(firebaseRoom.code, updates);
-            break; // Success, exit retry loop
-          } catch (error) {
-            retries++;
-            if (retries >= maxRetries) {
-              throw error; // Re-throw if all retries failed
-            }
-            // Wait a bit before retrying
-            await new Promise(resolve => setTimeout(resolve, 100 * retries));
-          }
-        }
-        
-        dispatch({
-          type: 'SET_UI_STATE',
-          payload: { 
-            lastAction: result.message,
-            requiresTargetSelection: false,
-            pendingAction: null,
-          },
-        });
-      } else {
-        dispatch({
-          type: 'SET_ERROR',
-          payload: result.message,
-        });
-      }
-    } catch (error) {
-      dispatch({
-        type: 'SET_ERROR',
-        payload: error instanceof Error ? error.message : 'Failed to select target',
-      });
-    } finally {
-      dispatch({ type: 'SET_LOADING', payload: false });
-    }
-  }, [firebaseRoom, state.currentPlayerId]);
+  const selectFlipThreeTarget = selectTarget;
 
   const stay = useCallback(async () => {
     if (!firebaseRoom || !state.currentPlayerId) return;
@@ -659,46 +615,7 @@ export function GameProvider({ children }: GameProviderProps) {
       dispatch({ type: 'SET_LOADING', payload: true });
       dispatch({ type: 'SET_ERROR', payload: null });
       
-      const result = processStayAction(firebaseRoom, state.currentPlayerId);
-      
-      if (result.success && result.updatedRoom) {
-        // Update Firebase with the new room state
-        const updates: any = {};
-        if (result.updatedRoom.players) updates.players = result.updatedRoom.players;
-        if (result.updatedRoom.deck) updates.deck = result.updatedRoom.deck;
-        if (result.updatedRoom.discardPile) updates.discardPile = result.updatedRoom.discardPile;
-        if (result.updatedRoom.currentTurn) updates.currentTurn = result.updatedRoom.currentTurn;
-        if (result.updatedRoom.state) updates.state = result.updatedRoom.state;
-        if (result.updatedRoom.round) updates.round = result.updatedRoom.round;
-        
-        // Retry logic for better reliability
-        let retries = 0;
-        const maxRetries = 3;
-        
-        while (retries < maxRetries) {
-          try {
-            await updateRoom(firebaseRoom.code, updates);
-            break; // Success, exit retry loop
-          } catch (error) {
-            retries++;
-            if (retries >= maxRetries) {
-              throw error; // Re-throw if all retries failed
-            }
-            // Wait a bit before retrying
-            await new Promise(resolve => setTimeout(resolve, 100 * retries));
-          }
-        }
-        
-        dispatch({
-          type: 'SET_UI_STATE',
-          payload: { lastAction: result.message },
-        });
-      } else {
-        dispatch({
-          type: 'SET_ERROR',
-          payload: result.message,
-        });
-      }
+      await sendPlayerAction('stay');
     } catch (error) {
       dispatch({
         type: 'SET_ERROR',
@@ -707,7 +624,7 @@ export function GameProvider({ children }: GameProviderProps) {
     } finally {
       dispatch({ type: 'SET_LOADING', payload: false });
     }
-  }, [firebaseRoom, state.currentPlayerId]);
+  }, [firebaseRoom, state.currentPlayerId, sendPlayerAction]);
 
   const startGame = useCallback(async () => {
     if (!roomCode) return;
@@ -716,7 +633,7 @@ export function GameProvider({ children }: GameProviderProps) {
       dispatch({ type: 'SET_LOADING', payload: true });
       dispatch({ type: 'SET_ERROR', payload: null });
       
-      await startGameInRoom(roomCode);
+      await sendPlayerAction('startGame');
     } catch (error) {
       dispatch({
         type: 'SET_ERROR',
@@ -725,7 +642,7 @@ export function GameProvider({ children }: GameProviderProps) {
     } finally {
       dispatch({ type: 'SET_LOADING', payload: false });
     }
-  }, [roomCode, startGameInRoom]);
+  }, [roomCode, sendPlayerAction]);
 
   const startNextRound = useCallback(async () => {
     if (!firebaseRoom || !state.currentPlayerId) return;
@@ -734,26 +651,7 @@ export function GameProvider({ children }: GameProviderProps) {
       dispatch({ type: 'SET_LOADING', payload: true });
       dispatch({ type: 'SET_ERROR', payload: null });
       
-      // Import the initializeRound function
-      const { initializeRound } = await import('../utils/gameRules');
-      
-      const updatedRoom = initializeRound(firebaseRoom);
-      
-      // Update Firebase with the new round
-      const updates: any = {};
-      if (updatedRoom.players) updates.players = updatedRoom.players;
-      if (updatedRoom.deck) updates.deck = updatedRoom.deck;
-      if (updatedRoom.discardPile) updates.discardPile = updatedRoom.discardPile;
-      if (updatedRoom.currentTurn) updates.currentTurn = updatedRoom.currentTurn;
-      if (updatedRoom.state) updates.state = updatedRoom.state;
-      if (updatedRoom.round) updates.round = updatedRoom.round;
-      
-      await updateRoom(firebaseRoom.code, updates);
-      
-      dispatch({
-        type: 'SET_UI_STATE',
-        payload: { lastAction: 'Next round started' },
-      });
+      await sendPlayerAction('startNextRound');
     } catch (error) {
       dispatch({
         type: 'SET_ERROR',
@@ -762,7 +660,7 @@ export function GameProvider({ children }: GameProviderProps) {
     } finally {
       dispatch({ type: 'SET_LOADING', payload: false });
     }
-  }, [firebaseRoom, state.currentPlayerId]);
+  }, [firebaseRoom, state.currentPlayerId, sendPlayerAction]);
 
   const restartGame = useCallback(async () => {
     if (!firebaseRoom || !state.currentPlayerId) return;
@@ -771,49 +669,7 @@ export function GameProvider({ children }: GameProviderProps) {
       dispatch({ type: 'SET_LOADING', payload: true });
       dispatch({ type: 'SET_ERROR', payload: null });
       
-      // Import the initializeRound function
-      const { initializeRound } = await import('../utils/gameRules');
-      
-      // Reset all players
-      const resetPlayers: Record<string, Player> = {};
-      for (const [playerId, player] of Object.entries(firebaseRoom.players)) {
-        resetPlayers[playerId] = {
-          ...player,
-          hand: [],
-          roundScore: 0,
-          totalScore: 0,
-          status: 'active',
-          hasFlip7: false,
-          isFrozen: false, // Clear frozen status
-          frozenUntilRound: undefined, // Clear freeze duration
-        };
-      }
-      
-      // Initialize new round
-      const updatedRoom = initializeRound({
-        ...firebaseRoom,
-        players: resetPlayers,
-        round: 0,
-        state: 'playing',
-        winner: undefined,
-      });
-      
-      // Update Firebase with the restarted game
-      const updates: any = {};
-      if (updatedRoom.players) updates.players = updatedRoom.players;
-      if (updatedRoom.deck) updates.deck = updatedRoom.deck;
-      if (updatedRoom.discardPile) updates.discardPile = updatedRoom.discardPile;
-      if (updatedRoom.currentTurn) updates.currentTurn = updatedRoom.currentTurn;
-      if (updatedRoom.state) updates.state = updatedRoom.state;
-      if (updatedRoom.round) updates.round = updatedRoom.round;
-      updates.winner = undefined;
-      
-      await updateRoom(firebaseRoom.code, updates);
-      
-      dispatch({
-        type: 'SET_UI_STATE',
-        payload: { lastAction: 'Game restarted' },
-      });
+      await sendPlayerAction('restartGame');
     } catch (error) {
       dispatch({
         type: 'SET_ERROR',
@@ -822,7 +678,38 @@ export function GameProvider({ children }: GameProviderProps) {
     } finally {
       dispatch({ type: 'SET_LOADING', payload: false });
     }
-  }, [firebaseRoom, state.currentPlayerId]);
+  }, [firebaseRoom, state.currentPlayerId, sendPlayerAction]);
+
+  // Ask the server to apply the timeout policy once the turn deadline has
+  // passed. Another client usually gets there first, so failures stay quiet.
+  const enforceTurnDeadline = useCallback(async () => {
+    if (!roomCode) return;
+
+    try {
+      const response = await submitTurnTimeout(roomCode);
+      if (response.message) {
+        dispatch({ type: 'SET_UI_STATE', payload: { lastAction: response.message } });
+      }
+    } catch (error) {
+      console.warn('Turn timeout not applied:', error);
+    }
+  }, [roomCode]);
+
+  // Take the seat back from the bot that has been playing it
+  const takeBackControl = useCallback(async () => {
+    if (!roomCode || !state.currentPlayerId) return;
+
+    try {
+      dispatch({ type: 'SET_ERROR', payload: null });
+
+      await releaseAutoPilot(roomCode, state.currentPlayerId);
+    } catch (error) {
+      dispatch({
+        type: 'SET_ERROR',
+        payload: error instanceof Error ? error.message : 'Failed to take back control',
+      });
+    }
+  }, [roomCode, state.currentPlayerId]);
 
   // Utility functions
   const clearError = useCallback(() => {
@@ -863,7 +750,11 @@ export function GameProvider({ children }: GameProviderProps) {
     createRoom,
     joinRoom,
     leaveRoom,
+    savedSeat: savedSeat && { roomCode: savedSeat.token.roomCode, playerName: savedSeat.playerName },
+    resumeSavedSeat,
+    dismissSavedSeat,
     removePlayer,
+    updateRoomSettings,
     hit,
     stay,
     selectTarget,
@@ -871,6 +762,8 @@ export function GameProvider({ children }: GameProviderProps) {
     startGame,
     startNextRound,
     restartGame,
+    enforceTurnDeadline,
+    takeBackControl,
     clearError,
     refreshConnection,
   };
@@ -1,5 +1,5 @@
 import { createContext } from 'react';
-import type { Room, Player } from '../types';
+import type { Room, Player, SoloOptions, RoomSettings, GameEffectType } from '../types';
 
 // Game State Types
 export interface GameContextState {
@@ -24,7 +24,13 @@ export interface GameContextState {
   showRoundEnd: boolean;
   lastAction: string | null;
   requiresTargetSelection?: boolean;
-  pendingAction?: 'freeze' | 'flipThree' | 'secondChance' | 'gameOver' | 'stay' | 'bust' | 'flip7' | null;
+  pendingAction?: GameEffectType | null;
+}
+
+// Seat saved in this browser on an earlier visit, offered back on the home screen
+export interface SavedSeat {
+  roomCode: string;
+  playerName: string;
 }
 
 // Game Actions
@@ -35,19 +41,23 @@ export type GameContextAction =
   | { type: 'SET_ERROR'; payload: string | null }
   | { type: 'SET_CONNECTION_STATUS'; payload: { isConnected: boolean; isReconnecting?: boolean } }
   | { type: 'SET_GAME_ACTIONS'; payload: { canHit: boolean; canStay: boolean; isMyTurn: boolean } }
-  | { type: 'SET_UI_STATE'; payload: { showGameOver?: boolean; showRoundEnd?: boolean; lastAction?: string | null; requiresTargetSelection?: boolean; pendingAction?: 'freeze' | 'flipThree' | 'secondChance' | 'gameOver' | 'stay' | 'bust' | 'flip7' | null } }
+  | { type: 'SET_UI_STATE'; payload: { showGameOver?: boolean; showRoundEnd?: boolean; lastAction?: string | null; requiresTargetSelection?: boolean; pendingAction?: GameEffectType | null } }
   | { type: 'CLEAR_ERROR' }
   | { type: 'RESET_STATE' };
 
 // Context interface
 export interface GameContextType extends GameContextState {
   // Room management
-  createRoom: (hostName: string, isSoloMode?: boolean) => Promise<void>;
+  createRoom: (hostName: string, isSoloMode?: boolean, soloOptions?: SoloOptions) => Promise<void>;
   joinRoom: (roomCode: string, playerName: string) => Promise<void>;
   leaveRoom: () => Promise<void>;
+  savedSeat: SavedSeat | null;
+  resumeSavedSeat: () => Promise<void>;
+  dismissSavedSeat: () => void;
   
   // Player management
   removePlayer: (targetPlayerId: string) => Promise<void>;
+  updateRoomSettings: (settings: Partial<RoomSettings>) => Promise<void>;
   
   // Game actions
   hit: () => Promise<void>;
@@ -57,6 +67,8 @@ export interface GameContextType extends GameContextState {
   startGame: () => Promise<void>;
   startNextRound: () => Promise<void>;
   restartGame: () => Promise<void>;
+  enforceTurnDeadline: () => Promise<void>;
+  takeBackControl: () => Promise<void>;
   
   // Utility
   clearError: () => void;
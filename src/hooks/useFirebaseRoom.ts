@@ -1,19 +1,18 @@
 import { useState, useEffect, useCallback } from 'react';
-import type { Room, Player } from '../types';
+import type { Room, Player, SoloOptions, RoomSettings } from '../types';
 import {
   createRoom,
   joinRoom,
   getRoom,
   updatePlayer,
-  removePlayer,
   hostRemovePlayer,
+  updateRoomSettings,
   updatePlayerConnection,
   markPlayerDisconnected,
-  cleanupDisconnectedPlayers as cleanupDisconnectedPlayersService,
-  startGame,
   subscribeToRoom,
   subscribeToRoomList,
 } from '../services/firebaseData';
+import { submitLeaveRoom } from '../services/gameActions';
 
 export interface UseFirebaseRoomReturn {
   // Room state
@@ -22,17 +21,16 @@ export interface UseFirebaseRoomReturn {
   error: string | null;
   
   // Room actions
-  createNewRoom: (hostName: string, isSoloMode?: boolean) => Promise<Room>;
-  joinExistingRoom: (roomCode: string, playerName: string) => Promise<Room>;
-  leaveRoom: (roomCode: string, playerId: string) => Promise<void>;
-  startGameInRoom: (roomCode: string) => Promise<void>;
+  createNewRoom: (hostName: string, isSoloMode?: boolean, soloOptions?: SoloOptions, seatSecretHash?: string) => Promise<Room>;
+  joinExistingRoom: (roomCode: string, playerName: string, seatSecretHash?: string) => Promise<Room>;
+  leaveRoom: (roomCode: string) => Promise<void>;
   
   // Player actions
   updatePlayerInRoom: (roomCode: string, playerId: string, updates: Partial<Player>) => Promise<void>;
   removePlayerFromRoom: (roomCode: string, hostId: string, targetPlayerId: string) => Promise<void>;
+  updateSettingsInRoom: (roomCode: string, hostId: string, settings: Partial<RoomSettings>) => Promise<void>;
   updatePlayerConnectionStatus: (roomCode: string, playerId: string, isConnected: boolean) => Promise<void>;
   markPlayerAsDisconnected: (roomCode: string, playerId: string) => Promise<void>;
-  cleanupDisconnectedPlayers: (roomCode: string, timeoutMinutes?: number) => Promise<void>;
   
   // Utility
   clearError: () => void;
@@ -64,12 +62,17 @@ export function useFirebaseRoom(roomCode?: string): UseFirebaseRoomReturn {
     };
   }, [roomCode]);
 
-  const createNewRoom = useCallback(async (hostName: string, isSoloMode: boolean = false): Promise<Room> => {
+  const createNewRoom = useCallback(async (
+    hostName: string,
+    isSoloMode: boolean = false,
+    soloOptions?: SoloOptions,
+    seatSecretHash?: string
+  ): Promise<Room> => {
     try {
       setLoading(true);
       setError(null);
       
-      const newRoom = await createRoom(hostName, isSoloMode);
+      const newRoom = await createRoom(hostName, isSoloMode, soloOptions, seatSecretHash);
       setRoom(newRoom);
       
       return newRoom;
@@ -82,12 +85,12 @@ export function useFirebaseRoom(roomCode?: string): UseFirebaseRoomReturn {
     }
   }, []);
 
-  const joinExistingRoom = useCallback(async (roomCode: string, playerName: string): Promise<Room> => {
+  const joinExistingRoom = useCallback(async (roomCode: string, playerName: string, seatSecretHash?: string): Promise<Room> => {
     try {
       setLoading(true);
       setError(null);
       
-      const joinedRoom = await joinRoom(roomCode, playerName);
+      const joinedRoom = await joinRoom(roomCode, playerName, seatSecretHash);
       setRoom(joinedRoom);
       
       return joinedRoom;
@@ -100,12 +103,12 @@ export function useFirebaseRoom(roomCode?: string): UseFirebaseRoomReturn {
     }
   }, []);
 
-  const leaveRoom = useCallback(async (roomCode: string, playerId: string): Promise<void> => {
+  const leaveRoom = useCallback(async (roomCode: string): Promise<void> => {
     try {
       setLoading(true);
       setError(null);
       
-      await removePlayer(roomCode, playerId);
+      await submitLeaveRoom(roomCode);
       setRoom(null);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to leave room';
@@ -116,21 +119,6 @@ export function useFirebaseRoom(roomCode?: string): UseFirebaseRoomReturn {
     }
   }, []);
 
-  const startGameInRoom = useCallback(async (roomCode: string): Promise<void> => {
-    try {
-      setLoading(true);
-      setError(null);
-      
-      await startGame(roomCode);
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to start game';
-      setError(errorMessage);
-      throw err;
-    } finally {
-      setLoading(false);
-    }
-  }, []);
-
   const updatePlayerInRoom = useCallback(async (
     roomCode: string,
     playerId: string,
@@ -164,41 +152,44 @@ export function useFirebaseRoom(roomCode?: string): UseFirebaseRoomReturn {
     }
   }, []);
 
-  const updatePlayerConnectionStatus = useCallback(async (
+  const updateSettingsInRoom = useCallback(async (
     roomCode: string,
-    playerId: string,
-    isConnected: boolean
+    hostId: string,
+    settings: Partial<RoomSettings>
   ): Promise<void> => {
     try {
-      await updatePlayerConnection(roomCode, playerId, isConnected);
+      setError(null);
+      
+      await updateRoomSettings(roomCode, hostId, settings);
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to update connection status';
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update settings';
       setError(errorMessage);
       throw err;
     }
   }, []);
 
-  const markPlayerAsDisconnected = useCallback(async (
+  const updatePlayerConnectionStatus = useCallback(async (
     roomCode: string,
-    playerId: string
+    playerId: string,
+    isConnected: boolean
   ): Promise<void> => {
     try {
-      await markPlayerDisconnected(roomCode, playerId);
+      await updatePlayerConnection(roomCode, playerId, isConnected);
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to mark player as disconnected';
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update connection status';
       setError(errorMessage);
       throw err;
     }
   }, []);
 
-  const cleanupDisconnectedPlayers = useCallback(async (
+  const markPlayerAsDisconnected = useCallback(async (
     roomCode: string,
-    timeoutMinutes: number = 5
+    playerId: string
   ): Promise<void> => {
     try {
-      await cleanupDisconnectedPlayersService(roomCode, timeoutMinutes);
+      await markPlayerDisconnected(roomCode, playerId);
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to cleanup disconnected players';
+      const errorMessage = err instanceof Error ? err.message : 'Failed to mark player as disconnected';
       setError(errorMessage);
       throw err;
     }
@@ -231,12 +222,11 @@ export function useFirebaseRoom(roomCode?: string): UseFirebaseRoomReturn {
     createNewRoom,
     joinExistingRoom,
     leaveRoom,
-    startGameInRoom,
     updatePlayerInRoom,
     removePlayerFromRoom,
+    updateSettingsInRoom,
     updatePlayerConnectionStatus,
     markPlayerAsDisconnected,
-    cleanupDisconnectedPlayers,
     clearError,
     refreshRoom,
   };
@@ -0,0 +1,67 @@
+import { useState, useEffect } from 'react';
+import { getRoom, getRecordedActions } from '../services/firebaseData';
+import { buildReplay } from '../utils/replay';
+import type { Replay } from '../utils/replay';
+
+export interface UseReplayReturn {
+  replay: Replay | null;
+  loading: boolean;
+  error: string | null;
+}
+
+// Load a finished room and its recorded moves, and rebuild every table state.
+// A game still being played is refused, since its frames would show the draw pile.
+export function useReplay(roomCode: string): UseReplayReturn {
+  const [replay, setReplay] = useState<Replay | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadReplay = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const [room, actions] = await Promise.all([
+          getRoom(roomCode),
+          getRecordedActions(roomCode),
+        ]);
+
+        if (cancelled) return;
+
+        if (!room) {
+          setError(`Room ${roomCode} not found. Replays are deleted once everyone has left the room.`);
+          return;
+        }
+        if (room.state !== 'gameOver') {
+          setError(`The game in room ${roomCode} isn't over yet; its replay opens when it ends`);
+          return;
+        }
+        if (actions.length === 0) {
+          setError(`Room ${roomCode} has no recorded moves yet`);
+          return;
+        }
+
+        setReplay(buildReplay(room, actions));
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load replay');
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    loadReplay();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [roomCode]);
+
+  return { replay, loading, error };
+}
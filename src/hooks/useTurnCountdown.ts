@@ -0,0 +1,27 @@
+import { useState, useEffect } from 'react';
+
+// How often the countdown re-renders
+const TICK_MS = 100;
+
+// Time left until a shared turn deadline, in milliseconds. Every client
+// counts down to the same stored deadline, so the table agrees on the clock.
+export function useTurnCountdown(deadline: number | null | undefined): number {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    setNow(Date.now());
+    if (!deadline) return;
+
+    const interval = setInterval(() => {
+      const tick = Date.now();
+      setNow(tick);
+      if (tick >= deadline) {
+        clearInterval(interval);
+      }
+    }, TICK_MS);
+
+    return () => clearInterval(interval);
+  }, [deadline]);
+
+  return deadline ? Math.max(0, deadline - now) : 0;
+}
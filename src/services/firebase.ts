@@ -1,6 +1,7 @@
 import { initializeApp } from 'firebase/app';
-import { getFirestore } from 'firebase/firestore';
-import { getFunctions } from 'firebase/functions';
+import { getAuth, connectAuthEmulator } from 'firebase/auth';
+import { getFirestore, connectFirestoreEmulator } from 'firebase/firestore';
+import { getFunctions, connectFunctionsEmulator } from 'firebase/functions';
 import type { FirebaseConfig } from '../types';
 
 // Firebase configuration
@@ -23,4 +24,14 @@ export const db = getFirestore(app);
 // Initialize Functions
 export const functions = getFunctions(app);
 
+// Initialize Auth; players sign in anonymously and their uid is their player id
+export const auth = getAuth(app);
+
+// Use the local emulators during development (see firebase.json)
+if (import.meta.env.VITE_USE_FIREBASE_EMULATORS === 'true') {
+  connectFirestoreEmulator(db, '127.0.0.1', 8080);
+  connectFunctionsEmulator(functions, '127.0.0.1', 5001);
+  connectAuthEmulator(auth, 'http://127.0.0.1:9099', { disableWarnings: true });
+}
+
 export default app; 
\ No newline at end of file
@@ -11,19 +11,21 @@ import {
   orderBy,
   limit,
   Timestamp,
-  writeBatch,
   runTransaction,
   DocumentSnapshot,
 } from 'firebase/firestore';
 import { db } from './firebase';
-import type { Room, Player, Card, GameState, PlayerStatus, RoundHistory } from '../types';
-import { generateDeck } from '../utils/cardSystem';
-import { createAndShuffleDeck } from '../utils/cardSystem';
+import { getPlayerUid } from './playerAuth';
+import type { Room, Player, Card, GameState, PlayerStatus, RoundHistory, PendingAction, BotDifficulty, SoloOptions, RoomSettings, RecordedAction } from '../types';
+import { generateDeck, validateDeckDefinition } from '../utils/cardSystem';
+import { createBotPlayer, DEFAULT_SOLO_OPTIONS, MAX_BOT_COUNT } from '../utils/botPlayer';
+import { DEFAULT_ROOM_SETTINGS, getSeatOrder } from '../utils/gameRules';
 
 // Collection names
 export const COLLECTIONS = {
   ROOMS: 'rooms',
   PLAYERS: 'players',
+  ACTIONS: 'actions',
 } as const;
 
 // Room document interface for Firestore
@@ -31,14 +33,27 @@ export interface RoomDocument {
   code: string;
   host: string;
   players: Record<string, PlayerDocument>;
-  deck: Card[];
+  seatOrder?: string[]; // Missing on rooms created before seats were recorded
+  dealerId?: string | null;
+  deckCount: number; // The deck itself lives in the server-only private/deck document
   discardPile: Card[];
   round: number;
+  roundSeeds: number[];
   state: GameState;
   currentTurn: string | null;
   createdAt: Timestamp;
-  maxRounds: number;
   lastActivity: Timestamp;
+  isSoloMode: boolean;
+  settings: RoomSettings;
+  winner?: string;
+  winners?: string[];
+  suddenDeathPlayerIds?: string[];
+  pendingAction?: PendingAction | null;
+  actionStack?: PendingAction[];
+  turnDeadline?: number | null;
+  version?: number; // Bumped by every move and seat or settings change, so stale moves are rejected
+  eventCount?: number; // Events appended to rooms/{code}/events so far
+  actionCount?: number; // Moves appended to rooms/{code}/actions so far
 }
 
 // Player document interface for Firestore
@@ -56,6 +71,11 @@ export interface PlayerDocument {
   isConnected: boolean;
   roundScore: number;
   totalScore: number;
+  isFrozen?: boolean;
+  isBot?: boolean;
+  botDifficulty?: BotDifficulty;
+  seatSecretHash?: string;
+  autoPilot?: boolean;
 }
 
 // Convert Room to RoomDocument for Firestore
@@ -69,14 +89,22 @@ function roomToDocument(room: Room): RoomDocument {
     code: room.code,
     host: room.host,
     players,
-    deck: room.deck,
+    seatOrder: room.seatOrder,
+    dealerId: room.dealerId,
+    deckCount: room.deckCount,
     discardPile: room.discardPile,
     round: room.round,
+    roundSeeds: room.roundSeeds,
     state: room.state,
     currentTurn: room.currentTurn,
     createdAt: Timestamp.fromDate(room.createdAt),
-    maxRounds: room.maxRounds,
     lastActivity: Timestamp.now(),
+    isSoloMode: room.isSoloMode,
+    settings: room.settings,
+    pendingAction: room.pendingAction ?? null,
+    actionStack: room.actionStack,
+    turnDeadline: room.turnDeadline ?? null,
+    version: room.version ?? 0,
   };
 }
 
@@ -93,13 +121,25 @@ function documentToRoom(doc: DocumentSnapshot, id: string): Room {
     code: data.code,
     host: data.host,
     players,
-    deck: data.deck,
+    seatOrder: getSeatOrder(players, data.seatOrder),
+    dealerId: data.dealerId ?? null,
+    deck: [],
+    deckCount: data.deckCount ?? 0,
     discardPile: data.discardPile,
     currentTurn: data.currentTurn,
     state: data.state,
     round: data.round,
-    maxRounds: data.maxRounds,
+    roundSeeds: data.roundSeeds ?? [],
     createdAt: data.createdAt.toDate(),
+    isSoloMode: data.isSoloMode ?? false,
+    settings: { ...DEFAULT_ROOM_SETTINGS, ...data.settings },
+    winner: data.winner,
+    winners: data.winners ?? [],
+    suddenDeathPlayerIds: data.suddenDeathPlayerIds ?? [],
+    pendingAction: data.pendingAction ?? null,
+    actionStack: data.actionStack ?? [],
+    turnDeadline: data.turnDeadline ?? null,
+    version: data.version ?? 0,
   };
 }
 
@@ -119,6 +159,9 @@ function playerToDocument(player: Player): PlayerDocument {
     isConnected: true,
     roundScore: 0,
     totalScore: 0,
+    // Firestore rejects undefined fields, so only bots carry these
+    ...(player.isBot && { isBot: true, botDifficulty: player.botDifficulty }),
+    ...(player.seatSecretHash && { seatSecretHash: player.seatSecretHash }),
   };
 }
 
@@ -138,6 +181,11 @@ function documentToPlayer(playerDoc: PlayerDocument): Player {
     hasFlip7: playerDoc.hasFlip7,
     isConnected: playerDoc.isConnected,
     lastSeen: playerDoc.lastSeen.toDate(),
+    isFrozen: playerDoc.isFrozen,
+    isBot: playerDoc.isBot,
+    botDifficulty: playerDoc.botDifficulty,
+    seatSecretHash: playerDoc.seatSecretHash,
+    autoPilot: playerDoc.autoPilot,
   };
 }
 
@@ -178,10 +226,12 @@ export async function generateUniqueRoomCode(): Promise<string> {
 // Create a new room
 export async function createRoom(
   hostName: string,
-  isSoloMode: boolean = false
+  isSoloMode: boolean = false,
+  soloOptions: SoloOptions = DEFAULT_SOLO_OPTIONS,
+  seatSecretHash?: string
 ): Promise<Room> {
   const roomCode = await generateUniqueRoomCode();
-  const hostId = `player_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  const hostId = await getPlayerUid();
   
   const hostPlayer: Player = {
     id: hostId,
@@ -197,19 +247,37 @@ export async function createRoom(
     hasFlip7: false,
     isConnected: true,
     lastSeen: new Date(),
+    seatSecretHash,
   };
 
+  const players: Record<string, Player> = { [hostId]: hostPlayer };
+  
+  // Seat the bot opponents for Solo Mode
+  if (isSoloMode) {
+    const botCount = Math.min(Math.max(soloOptions.botCount, 1), MAX_BOT_COUNT);
+    for (let i = 0; i < botCount; i++) {
+      const bot = createBotPlayer(i, soloOptions.difficulty);
+      players[bot.id] = bot;
+    }
+  }
+
   const room: Room = {
     code: roomCode,
     host: hostId,
-    players: { [hostId]: hostPlayer },
+    players,
+    seatOrder: Object.keys(players), // Host first, then the bots
+    dealerId: null,
     deck: [],
+    deckCount: 0,
     discardPile: [],
     currentTurn: null,
     state: 'waiting',
     round: 0,
-    maxRounds: 10,
+    roundSeeds: [],
+    actionStack: [],
     createdAt: new Date(),
+    isSoloMode,
+    settings: DEFAULT_ROOM_SETTINGS,
   };
 
   const roomRef = doc(db, COLLECTIONS.ROOMS, roomCode);
@@ -221,9 +289,11 @@ export async function createRoom(
 // Join an existing room
 export async function joinRoom(
   roomCode: string,
-  playerName: string
+  playerName: string,
+  seatSecretHash?: string
 ): Promise<Room> {
   const roomRef = doc(db, COLLECTIONS.ROOMS, roomCode);
+  const playerId = await getPlayerUid();
   
   return runTransaction(db, async (transaction) => {
     const roomDoc = await transaction.get(roomRef);
@@ -234,10 +304,19 @@ export async function joinRoom(
     
     const roomData = roomDoc.data() as RoomDocument;
     
+    // Each signed-in browser holds at most one seat per room
+    if (roomData.players[playerId]) {
+      throw new Error('You already have a seat in this room');
+    }
+    
     if (roomData.state !== 'waiting') {
       throw new Error('Game has already started');
     }
     
+    if (roomData.isSoloMode) {
+      throw new Error('This is a solo game');
+    }
+    
     // Check if player name already exists in the room
     const existingPlayer = Object.values(roomData.players).find(
       (player) => player.name === playerName
@@ -247,8 +326,6 @@ export async function joinRoom(
       throw new Error('Player name already taken');
     }
     
-    const playerId = `player_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    
     const newPlayer: PlayerDocument = {
       id: playerId,
       name: playerName,
@@ -263,6 +340,7 @@ export async function joinRoom(
       isConnected: true,
       roundScore: 0,
       totalScore: 0,
+      ...(seatSecretHash && { seatSecretHash }),
     };
     
     const updatedPlayers = {
@@ -270,8 +348,20 @@ export async function joinRoom(
       [playerId]: newPlayer,
     };
     
+    // New players take the next seat to the left
+    const players = Object.fromEntries(
+      Object.entries(updatedPlayers).map(([id, playerDoc]) => [
+        id,
+        documentToPlayer(playerDoc),
+      ])
+    );
+    const seatOrder = getSeatOrder(players, [...(roomData.seatOrder ?? []), playerId]);
+    
+    const version = (roomData.version ?? 0) + 1;
     transaction.update(roomRef, {
       players: updatedPlayers,
+      seatOrder,
+      version,
       lastActivity: Timestamp.now(),
     });
     
@@ -279,6 +369,8 @@ export async function joinRoom(
     const updatedRoomData: RoomDocument = {
       ...roomData,
       players: updatedPlayers,
+      seatOrder,
+      version,
       lastActivity: Timestamp.now(),
     };
     
@@ -286,19 +378,22 @@ export async function joinRoom(
       id: roomCode,
       code: updatedRoomData.code,
       host: updatedRoomData.host,
-      players: Object.fromEntries(
-        Object.entries(updatedRoomData.players).map(([id, playerDoc]) => [
-          id,
-          documentToPlayer(playerDoc),
-        ])
-      ),
-      deck: updatedRoomData.deck,
+      players,
+      seatOrder,
+      dealerId: updatedRoomData.dealerId ?? null,
+      deck: [],
+      deckCount: updatedRoomData.deckCount ?? 0,
       discardPile: updatedRoomData.discardPile,
       round: updatedRoomData.round,
+      roundSeeds: updatedRoomData.roundSeeds ?? [],
+      actionStack: updatedRoomData.actionStack ?? [],
+      turnDeadline: updatedRoomData.turnDeadline ?? null,
+      version,
       state: updatedRoomData.state,
       currentTurn: updatedRoomData.currentTurn,
       createdAt: updatedRoomData.createdAt.toDate(),
-      maxRounds: updatedRoomData.maxRounds,
+      isSoloMode: updatedRoomData.isSoloMode ?? false,
+      settings: { ...DEFAULT_ROOM_SETTINGS, ...updatedRoomData.settings },
       lastActivity: updatedRoomData.lastActivity.toDate(),
     };
   });
@@ -316,37 +411,23 @@ export async function getRoom(roomCode: string): Promise<Room | null> {
   return documentToRoom(roomDoc, roomCode);
 }
 
-// Update room with retry logic for better reliability
-export async function updateRoom(roomCode: string, updates: Partial<RoomDocument>): Promise<void> {
-  const roomRef = doc(db, COLLECTIONS.ROOMS, roomCode);
+// Get every move the server accepted in a room, in the order it was played
+export async function getRecordedActions(roomCode: string): Promise<RecordedAction[]> {
+  const actionsRef = collection(db, COLLECTIONS.ROOMS, roomCode, COLLECTIONS.ACTIONS);
+  const snapshot = await getDocs(query(actionsRef, orderBy('sequence')));
   
-  const updateData = {
-    ...updates,
-    lastActivity: Timestamp.now(),
-  };
-  
-  // Retry logic for handling concurrent updates
-  let retries = 0;
-  const maxRetries = 3;
-  
-  while (retries < maxRetries) {
-    try {
-      await updateDoc(roomRef, updateData);
-      return; // Success
-    } catch (error: any) {
-      retries++;
-      console.log(`🔄 Firebase update attempt ${retries}/${maxRetries} failed:`, error?.message);
-      
-      if (retries >= maxRetries) {
-        console.error('❌ All Firebase update attempts failed');
-        throw error;
-      }
-      
-      // Wait with exponential backoff before retrying
-      const delay = Math.min(200 * Math.pow(2, retries - 1), 2000);
-      await new Promise(resolve => setTimeout(resolve, delay));
-    }
-  }
+  return snapshot.docs.map((actionDoc) => {
+    const data = actionDoc.data();
+    return {
+      sequence: data.sequence,
+      playerId: data.playerId,
+      action: data.action,
+      targetPlayerId: data.targetPlayerId ?? null,
+      seed: data.seed ?? null,
+      seats: data.seats ?? null,
+      createdAt: data.createdAt?.toDate() ?? new Date(),
+    };
+  });
 }
 
 // Update player in room
@@ -387,50 +468,52 @@ export async function updatePlayer(
   });
 }
 
-// Remove player from room
-export async function removePlayer(roomCode: string, playerId: string): Promise<void> {
+// Host removes a player from the room
+export async function hostRemovePlayer(roomCode: string, hostId: string, targetPlayerId: string): Promise<void> {
   const roomRef = doc(db, COLLECTIONS.ROOMS, roomCode);
   
   await runTransaction(db, async (transaction) => {
     const roomDoc = await transaction.get(roomRef);
     
     if (!roomDoc.exists()) {
-      return; // Room doesn't exist, nothing to do
+      throw new Error('Room not found');
     }
     
     const roomData = roomDoc.data() as RoomDocument;
-    const remainingPlayers = { ...roomData.players };
-    delete remainingPlayers[playerId];
     
-    // If no players left, delete the room
-    if (Object.keys(remainingPlayers).length === 0) {
-      transaction.delete(roomRef);
-      return;
+    // Verify the requester is the host
+    if (roomData.host !== hostId) {
+      throw new Error('Only the host can remove players');
+    }
+    
+    // Verify the target player exists
+    if (!roomData.players[targetPlayerId]) {
+      throw new Error('Player not found');
     }
     
-    // If the host left, assign new host
-    let updatedPlayers = remainingPlayers;
-    if (roomData.host === playerId) {
-      const newHostId = Object.keys(remainingPlayers)[0];
-      updatedPlayers = {
-        ...remainingPlayers,
-        [newHostId]: {
-          ...remainingPlayers[newHostId],
-          isHost: true,
-        },
-      };
+    // Host cannot remove themselves
+    if (hostId === targetPlayerId) {
+      throw new Error('Host cannot remove themselves');
     }
     
+    const remainingPlayers = { ...roomData.players };
+    delete remainingPlayers[targetPlayerId];
+    
     transaction.update(roomRef, {
-      players: updatedPlayers,
-      host: roomData.host === playerId ? Object.keys(updatedPlayers)[0] : roomData.host,
+      players: remainingPlayers,
+      seatOrder: (roomData.seatOrder ?? []).filter((id) => id !== targetPlayerId),
+      version: (roomData.version ?? 0) + 1,
       lastActivity: Timestamp.now(),
     });
   });
 }
 
-// Host removes a player from the room
-export async function hostRemovePlayer(roomCode: string, hostId: string, targetPlayerId: string): Promise<void> {
+// Host updates the room settings before the game starts
+export async function updateRoomSettings(
+  roomCode: string,
+  hostId: string,
+  settings: Partial<RoomSettings>
+): Promise<void> {
   const roomRef = doc(db, COLLECTIONS.ROOMS, roomCode);
   
   await runTransaction(db, async (transaction) => {
@@ -444,24 +527,23 @@ export async function hostRemovePlayer(roomCode: string, hostId: string, targetP
     
     // Verify the requester is the host
     if (roomData.host !== hostId) {
-      throw new Error('Only the host can remove players');
+      throw new Error('Only the host can change room settings');
     }
     
-    // Verify the target player exists
-    if (!roomData.players[targetPlayerId]) {
-      throw new Error('Player not found');
+    if (roomData.state !== 'waiting') {
+      throw new Error('Settings cannot change once the game has started');
     }
     
-    // Host cannot remove themselves
-    if (hostId === targetPlayerId) {
-      throw new Error('Host cannot remove themselves');
+    if (settings.deck) {
+      const { isValid, errors } = validateDeckDefinition(settings.deck);
+      if (!isValid) {
+        throw new Error(`Invalid deck: ${errors.join(', ')}`);
+      }
     }
     
-    const remainingPlayers = { ...roomData.players };
-    delete remainingPlayers[targetPlayerId];
-    
     transaction.update(roomRef, {
-      players: remainingPlayers,
+      settings: { ...DEFAULT_ROOM_SETTINGS, ...roomData.settings, ...settings },
+      version: (roomData.version ?? 0) + 1,
       lastActivity: Timestamp.now(),
     });
   });
@@ -489,128 +571,23 @@ export async function markPlayerDisconnected(roomCode: string, playerId: string)
   const roomRef = doc(db, COLLECTIONS.ROOMS, roomCode);
   
   // Use simple update instead of transaction for disconnection
-  // This avoids conflicts with game state updates
+  // This avoids conflicts with game state updates. The seat keeps its status
+  // so a player who reloads the page picks their hand back up.
   await updateDoc(roomRef, {
     [`players.${playerId}.isConnected`]: false,
-    [`players.${playerId}.status`]: 'disconnected',
     [`players.${playerId}.lastSeen`]: Timestamp.now(),
     lastActivity: Timestamp.now(),
   });
 }
 
-// Clean up disconnected players (run periodically)
-export async function cleanupDisconnectedPlayers(roomCode: string, timeoutMinutes: number = 5): Promise<void> {
+// Take a seat back from the bot that played it after a missed turn deadline
+export async function releaseAutoPilot(roomCode: string, playerId: string): Promise<void> {
   const roomRef = doc(db, COLLECTIONS.ROOMS, roomCode);
-  
-  await runTransaction(db, async (transaction) => {
-    const roomDoc = await transaction.get(roomRef);
-    
-    if (!roomDoc.exists()) {
-      return;
-    }
-    
-    const roomData = roomDoc.data() as RoomDocument;
-    const now = Timestamp.now();
-    const timeoutMs = timeoutMinutes * 60 * 1000;
-    
-    const updatedPlayers = { ...roomData.players };
-    let hasChanges = false;
-    
-    // Remove players who have been disconnected for too long
-    Object.entries(updatedPlayers).forEach(([playerId, player]) => {
-      if (!player.isConnected) {
-        const timeSinceLastSeen = now.toMillis() - player.lastSeen.toMillis();
-        if (timeSinceLastSeen > timeoutMs) {
-          delete updatedPlayers[playerId];
-          hasChanges = true;
-        }
-      }
-    });
-    
-    // If no players left, delete the room
-    if (Object.keys(updatedPlayers).length === 0) {
-      transaction.delete(roomRef);
-      return;
-    }
-    
-    // If host was removed, assign new host
-    if (hasChanges && !updatedPlayers[roomData.host]) {
-      const newHostId = Object.keys(updatedPlayers)[0];
-      updatedPlayers[newHostId] = {
-        ...updatedPlayers[newHostId],
-        isHost: true,
-      };
-      
-      transaction.update(roomRef, {
-        players: updatedPlayers,
-        host: newHostId,
-        lastActivity: Timestamp.now(),
-      });
-    } else if (hasChanges) {
-      transaction.update(roomRef, {
-        players: updatedPlayers,
-        lastActivity: Timestamp.now(),
-      });
-    }
-  });
-}
 
-// Start game
-export async function startGame(roomCode: string): Promise<void> {
-  const roomRef = doc(db, COLLECTIONS.ROOMS, roomCode);
-  
-  await runTransaction(db, async (transaction) => {
-    const roomDoc = await transaction.get(roomRef);
-    
-    if (!roomDoc.exists()) {
-      throw new Error('Room not found');
-    }
-    
-    const roomData = roomDoc.data() as RoomDocument;
-    
-    if (roomData.state !== 'waiting') {
-      throw new Error('Game has already started');
-    }
-    
-    if (Object.keys(roomData.players).length < 1) {
-      throw new Error('Need at least 1 player to start');
-    }
-    
-    // Initialize game state with properly shuffled deck
-    const shuffledDeck = createAndShuffleDeck();
-    const playerIds = Object.keys(roomData.players);
-    const updatedPlayers = { ...roomData.players };
-    
-    // Deal one card to each player
-    const remainingDeck = [...shuffledDeck];
-    for (const playerId of playerIds) {
-      if (remainingDeck.length > 0) {
-        const card = remainingDeck.shift()!;
-        // Deal face-up cards (isVisible: true)
-        const faceUpCard = {
-          ...card,
-          isVisible: true,
-        };
-        updatedPlayers[playerId] = {
-          ...updatedPlayers[playerId],
-          hand: [faceUpCard],
-          status: 'active',
-          roundScore: 0,
-          totalScore: 0,
-          hasFlip7: false,
-        };
-      }
-    }
-    
-    transaction.update(roomRef, {
-      players: updatedPlayers,
-      deck: remainingDeck,
-      discardPile: [],
-      round: 1,
-      state: 'playing',
-      currentTurn: playerIds[0],
-      lastActivity: Timestamp.now(),
-    });
+  await updateDoc(roomRef, {
+    [`players.${playerId}.autoPilot`]: false,
+    [`players.${playerId}.lastSeen`]: Timestamp.now(),
+    lastActivity: Timestamp.now(),
   });
 }
 
@@ -648,34 +625,13 @@ export function subscribeToRoomList(
   });
 }
 
-// Clean up old rooms (run periodically)
-export async function cleanupOldRooms(): Promise<void> {
-  const roomsRef = collection(db, COLLECTIONS.ROOMS);
-  const cutoffTime = new Date();
-  cutoffTime.setHours(cutoffTime.getHours() - 24); // Remove rooms older than 24 hours
-  
-  const q = query(
-    roomsRef,
-    where('lastActivity', '<', Timestamp.fromDate(cutoffTime))
-  );
-  
-  const querySnapshot = await getDocs(q);
-  const batch = writeBatch(db);
-  
-  querySnapshot.forEach((doc) => {
-    batch.delete(doc.ref);
-  });
-  
-  await batch.commit();
-}
-
 // Get room statistics
 export async function getRoomStats(roomCode: string): Promise<{
   totalPlayers: number;
   activePlayers: number;
   gameState: GameState;
   currentRound: number;
-  maxRounds: number;
+  maxRounds: number | null;
 }> {
   const room = await getRoom(roomCode);
   
@@ -693,6 +649,6 @@ export async function getRoomStats(roomCode: string): Promise<{
     activePlayers,
     gameState: room.state,
     currentRound: room.round,
-    maxRounds: room.maxRounds,
+    maxRounds: room.settings.maxRounds,
   };
 }
\ No newline at end of file
@@ -0,0 +1,54 @@
+import { FirebaseError } from 'firebase/app';
+import { httpsCallable } from 'firebase/functions';
+import { functions } from './firebase';
+import type { PlayerIntent } from '../types';
+import type { GameEffect } from '../utils/gameRules';
+
+// Response returned by the playerAction callable
+export interface PlayerActionResponse {
+  message: string;
+  effects: GameEffect[];
+  requiresTargetSelection: boolean;
+}
+
+const playerActionCallable = httpsCallable<PlayerIntent, PlayerActionResponse>(functions, 'playerAction');
+
+// Submit a move to the server, which validates it and writes the new room state
+export async function submitPlayerAction(intent: PlayerIntent): Promise<PlayerActionResponse> {
+  const result = await playerActionCallable(intent);
+  return result.data;
+}
+
+// Whether a move was rejected because the room changed after the client read it
+export function isVersionConflict(error: unknown): boolean {
+  return error instanceof FirebaseError && error.code === 'functions/aborted';
+}
+
+// Response returned by the turnTimeout callable
+export interface TurnTimeoutResponse {
+  message: string;
+  effects: GameEffect[];
+}
+
+const turnTimeoutCallable = httpsCallable<{ roomCode: string }, TurnTimeoutResponse>(functions, 'turnTimeout');
+
+// Ask the server to play out a turn whose deadline has passed. It does
+// nothing if the deadline has moved on, so every client may ask.
+export async function submitTurnTimeout(roomCode: string): Promise<TurnTimeoutResponse> {
+  const result = await turnTimeoutCallable({ roomCode });
+  return result.data;
+}
+
+// Response returned by the leaveRoom callable
+export interface LeaveRoomResponse {
+  message: string;
+}
+
+const leaveRoomCallable = httpsCallable<{ roomCode: string }, LeaveRoomResponse>(functions, 'leaveRoom');
+
+// Give up the caller's seat. The server passes on a turn they were due to
+// play, and closes the room once no human is left in it.
+export async function submitLeaveRoom(roomCode: string): Promise<LeaveRoomResponse> {
+  const result = await leaveRoomCallable({ roomCode });
+  return result.data;
+}
@@ -0,0 +1,14 @@
+import { signInAnonymously } from 'firebase/auth';
+import { auth } from './firebase';
+
+// Sign in anonymously the first time and return the uid used as this
+// browser's player id. Auth keeps the same user across reloads.
+export async function getPlayerUid(): Promise<string> {
+  await auth.authStateReady();
+  if (auth.currentUser) {
+    return auth.currentUser.uid;
+  }
+
+  const credential = await signInAnonymously(auth);
+  return credential.user.uid;
+}
@@ -1,4 +1,7 @@
-import { getRoom } from './firebaseData';
+import { getRoom, releaseAutoPilot, updatePlayerConnection } from './firebaseData';
+import { getPlayerUid } from './playerAuth';
+import { hashSeatSecret } from './seatSession';
+import type { SeatToken } from './seatSession';
 import type { Room } from '../types';
 
 // Reconnection configuration
@@ -151,6 +154,32 @@ export class ReconnectionService {
     });
   }
 
+  // Look up a saved seat: the room it was in, or null once the room or seat
+  // is gone, the secret no longer matches or this browser signed in as someone else
+  async findSavedSeat(token: SeatToken): Promise<Room | null> {
+    const room = await getRoom(token.roomCode);
+    const player = room?.players[token.playerId];
+    if (!room || !player?.seatSecretHash || player.id !== await getPlayerUid()) {
+      return null;
+    }
+
+    return player.seatSecretHash === await hashSeatSecret(token.secret) ? room : null;
+  }
+
+  // Sit back down in a saved seat after a page reload. Resolves null when the
+  // seat can no longer be reclaimed.
+  async reclaimSeat(token: SeatToken): Promise<Room | null> {
+    const room = await this.findSavedSeat(token);
+    if (room) {
+      await updatePlayerConnection(token.roomCode, token.playerId, true);
+      // Coming back ends any bot takeover of the seat
+      if (room.players[token.playerId]?.autoPilot) {
+        await releaseAutoPilot(token.roomCode, token.playerId);
+      }
+    }
+    return room;
+  }
+
   // Register reconnection success callback
   onReconnect(callback: (room: Room) => void): () => void {
     this.reconnectCallbacks.push(callback);
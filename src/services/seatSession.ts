@@ -0,0 +1,72 @@
+// A seat this browser holds, saved so a page reload can sit back down at the table
+export interface SeatToken {
+  roomCode: string;
+  playerId: string;
+  secret: string; // Only its hash is stored on the seat, so other players can't claim it
+}
+
+const SEAT_TOKEN_KEY = 'flip7.seat';
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function isSeatToken(value: unknown): value is SeatToken {
+  const token = value as SeatToken | null;
+  return typeof token?.roomCode === 'string' &&
+    typeof token.playerId === 'string' &&
+    typeof token.secret === 'string';
+}
+
+function readToken(storage: Storage): SeatToken | null {
+  try {
+    const raw = storage.getItem(SEAT_TOKEN_KEY);
+    const token: unknown = raw ? JSON.parse(raw) : null;
+    return isSeatToken(token) ? token : null;
+  } catch {
+    // Storage can be disabled (private browsing) or hold a corrupt entry
+    return null;
+  }
+}
+
+// Random secret for a new seat
+export function createSeatSecret(): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(16)));
+}
+
+// Hash stored on the seat and compared against the saved secret on rejoin
+export async function hashSeatSecret(secret: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(secret));
+  return toHex(new Uint8Array(digest));
+}
+
+// Remember the seat in this browser. The session copy marks the tab that
+// holds it, so a reload of that tab rejoins without asking.
+export function saveSeatToken(token: SeatToken): void {
+  const raw = JSON.stringify(token);
+  try {
+    localStorage.setItem(SEAT_TOKEN_KEY, raw);
+    sessionStorage.setItem(SEAT_TOKEN_KEY, raw);
+  } catch (error) {
+    console.error('Failed to save seat:', error);
+  }
+}
+
+// The saved seat, and whether this tab was the one sitting in it
+export function loadSeatToken(): { token: SeatToken; isReload: boolean } | null {
+  const token = readToken(localStorage);
+  if (!token) return null;
+
+  const tabToken = readToken(sessionStorage);
+  const isReload = tabToken?.roomCode === token.roomCode && tabToken.playerId === token.playerId;
+  return { token, isReload };
+}
+
+export function clearSeatToken(): void {
+  try {
+    localStorage.removeItem(SEAT_TOKEN_KEY);
+    sessionStorage.removeItem(SEAT_TOKEN_KEY);
+  } catch (error) {
+    console.error('Failed to clear seat:', error);
+  }
+}
@@ -5,6 +5,47 @@ export type ActionCardType = 'freeze' | 'flipThree' | 'secondChance';
 
 export type ModifierCardType = 'plus4' | 'plus6' | 'plus8' | 'plus10' | 'x2';
 
+// How many copies of each card a deck contains
+export interface DeckDefinition {
+  number: Record<number, number>; // Keyed by card value (0-12)
+  action: Record<ActionCardType, number>;
+  modifier: Record<ModifierCardType, number>;
+}
+
+// Kinds of game effects the rules engine reports, and that the event log records
+export type GameEffectType =
+  | 'draw'
+  | 'freeze'
+  | 'flipThree'
+  | 'secondChance'
+  | 'bust'
+  | 'flip7'
+  | 'stay'
+  | 'skip'
+  | 'leave'
+  | 'reshuffle'
+  | 'roundEnd'
+  | 'gameOver';
+
+// Named deck compositions the host can pick from; 'custom' uses hand-picked counts
+export type DeckPreset = 'official' | 'noActions' | 'doubleModifiers' | 'highStakes' | 'custom';
+
+// 'official': a frozen player banks their points and is out for the round.
+// 'legacy': a frozen player keeps their hand but skips their turns until the round ends.
+export type FreezeRule = 'official' | 'legacy';
+
+// 'official': ×2 doubles only the number cards, then +N cards and the Flip 7 bonus are added.
+// 'legacy': +N cards are added to the numbers before ×2 doubles the total.
+export type ScoringMode = 'official' | 'legacy';
+
+// How a tie for the win is settled: the tied leaders share it, play
+// sudden-death rounds among themselves, or the most Flip 7s wins
+export type TiePolicy = 'shared' | 'suddenDeath' | 'mostFlip7s';
+
+// What happens when a player's turn deadline passes: they stay, their turn is
+// skipped, or a bot plays their seat until they take it back
+export type TurnTimeoutPolicy = 'autoStay' | 'autoSkip' | 'botTakeover';
+
 export interface Card {
   id: string;
   type: CardType;
@@ -32,10 +73,16 @@ export interface Player {
   hasFlip7: boolean;
   isConnected: boolean;
   lastSeen: Date;
-  isFrozen?: boolean; // Added for Freeze card functionality
-  frozenUntilRound?: number; // Round when player will be unfrozen
+  isFrozen?: boolean; // Hit by a Freeze card this round
+  isBot?: boolean; // Solo Mode opponent played by the server
+  botDifficulty?: BotDifficulty;
+  seatSecretHash?: string; // Hash of the secret the seat's browser saved to rejoin after a reload
+  autoPilot?: boolean; // A bot is playing this seat after a turn timeout, until the player takes it back
 }
 
+// How much risk a bot opponent is willing to take
+export type BotDifficulty = 'cautious' | 'balanced' | 'reckless';
+
 // Game State Types
 export type GameState = 'waiting' | 'playing' | 'roundEnd' | 'gameOver';
 
@@ -52,14 +99,61 @@ export interface Room {
   code: string;
   host: string;
   players: Record<string, Player>;
-  deck: Card[];
+  seatOrder: string[]; // Player ids around the table, clockwise, in the order they sat down
+  dealerId: string | null; // Dealer for the current round; the button moves one seat left each round
+  deck: Card[]; // Only populated on the server; the draw pile is hidden from clients
+  deckCount: number; // Cards left in the draw pile
   discardPile: Card[];
   currentTurn: string | null;
   state: GameState;
   round: number;
-  maxRounds: number;
+  roundSeeds: number[]; // Shuffle seed for each round so far, in round order
   createdAt: Date;
+  isSoloMode: boolean; // One human against bot opponents
+  settings: RoomSettings; // Chosen by the host in the lobby
   winner?: string; // Store the game winner
+  winners?: string[]; // Everyone sharing the win when the game is over
+  suddenDeathPlayerIds?: string[]; // Tied leaders playing an extra round for the win
+  pendingAction?: PendingAction | null; // Action card waiting for its target
+  actionStack: PendingAction[]; // Cards turned up during a Flip Three, played after it; last is next
+  turnDeadline?: number | null; // Epoch ms by which the acting player must move; set by the server
+  version?: number; // Bumped by every move and seat or settings change; moves carry the one they were chosen on
+}
+
+// One entry in a room's append-only event log (rooms/{code}/events)
+export interface GameEvent {
+  sequence: number; // Position in the log, starting at 0
+  type: GameEffectType;
+  round: number;
+  actorId: string | null; // Player whose move caused the event
+  targetId: string | null; // Player the event happened to
+  cards: Card[];
+  message: string;
+  createdAt: Date;
+}
+
+// Table options the host controls before the game starts
+export interface RoomSettings {
+  targetScore: number; // Total score that ends the game
+  maxRounds: number | null; // null plays until someone reaches the target score
+  flip7Bonus: number; // Points added for collecting 7 unique numbers
+  turnTimerSeconds: number; // Time each player has to act
+  turnTimeoutPolicy: TurnTimeoutPolicy;
+  showRiskHints: boolean; // Show bust odds next to the Hit/Stay buttons
+  showCardTracker: boolean; // Show how many of each card are still unseen; off for memory-only games
+  deckPreset: DeckPreset;
+  deck: DeckDefinition; // Card counts used to build every draw pile
+  freezeRule: FreezeRule;
+  scoringMode: ScoringMode;
+  tiePolicy: TiePolicy;
+}
+
+// An action card drawn by `playerId` that still needs a target. For
+// 'secondChance' it is an extra copy to give to another player.
+export interface PendingAction {
+  type: 'freeze' | 'flipThree' | 'secondChance';
+  playerId: string; // Holder of the card, who chooses its target
+  cardId: string;
 }
 
 // Game Actions
@@ -71,6 +165,45 @@ export type GameAction =
   | 'restartGame'
   | 'leaveRoom';
 
+// Player intents accepted by the server-side move validator
+export type PlayerIntentAction =
+  | 'hit'
+  | 'stay'
+  | 'selectTarget'
+  | 'startGame'
+  | 'startNextRound'
+  | 'restartGame'
+  | 'skipTurn' // Only played by the server when a turn deadline passes
+  | 'leaveGame'; // Played by the server when a player leaves the room
+
+export interface PlayerIntent {
+  roomCode: string;
+  playerId: string;
+  action: PlayerIntentAction;
+  targetPlayerId?: string;
+  expectedVersion?: number; // Room version the move was chosen on; rejected if the room has moved on since
+}
+
+// A seat at the table when a round was dealt, kept so replays don't depend
+// on who is still in the room
+export interface RecordedSeat {
+  id: string;
+  name: string;
+  isBot: boolean;
+  isHost: boolean;
+}
+
+// A move accepted by the server, recorded in rooms/{code}/actions for replays
+export interface RecordedAction {
+  sequence: number; // Position in the log, starting at 0
+  playerId: string;
+  action: PlayerIntentAction;
+  targetPlayerId: string | null;
+  seed: number | null; // Shuffle seed when the move dealt a new round, filled in once the game is over
+  seats: RecordedSeat[] | null; // Players in seat order when the move dealt a new round
+  createdAt: Date;
+}
+
 // Firebase Types
 export interface FirebaseConfig {
   apiKey: string;
@@ -114,6 +247,11 @@ export interface GameError {
 }
 
 // Solo Mode Types
+export interface SoloOptions {
+  botCount: number;
+  difficulty: BotDifficulty;
+}
+
 export interface SoloGame {
   player: Player;
   aiPlayers: Player[];
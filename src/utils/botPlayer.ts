@@ -0,0 +1,153 @@
+import type { Room, Player, Card, PlayerIntent, BotDifficulty, SoloOptions, PendingAction, TurnTimeoutPolicy, RoomSettings } from '../types';
+import { calculateHandScore } from './cardSystem';
+import { getActingPlayerId, getSecondChanceRecipients } from './gameRules';
+
+// Solo Mode defaults
+export const DEFAULT_SOLO_OPTIONS: SoloOptions = {
+  botCount: 3,
+  difficulty: 'balanced',
+};
+
+export const MAX_BOT_COUNT = 5;
+
+const BOT_NAMES = ['Ace', 'Blaze', 'Cosmo', 'Dice', 'Echo'];
+
+// When a bot stops drawing, by difficulty
+const BOT_PROFILES: Record<BotDifficulty, { stayAtScore: number; stayAtNumberCards: number }> = {
+  cautious: { stayAtScore: 15, stayAtNumberCards: 4 },
+  balanced: { stayAtScore: 22, stayAtNumberCards: 5 },
+  reckless: { stayAtScore: 30, stayAtNumberCards: 6 },
+};
+
+/**
+ * Create a bot opponent for Solo Mode
+ */
+export function createBotPlayer(index: number, difficulty: BotDifficulty): Player {
+  return {
+    id: `bot_${index + 1}`,
+    name: `${BOT_NAMES[index % BOT_NAMES.length]} (Bot)`,
+    hand: [],
+    score: 0,
+    roundScore: 0,
+    totalScore: 0,
+    status: 'active',
+    history: [],
+    joinedAt: new Date(),
+    isHost: false,
+    hasFlip7: false,
+    isConnected: true,
+    lastSeen: new Date(),
+    isBot: true,
+    botDifficulty: difficulty,
+  };
+}
+
+/**
+ * Check if the room is waiting on a bot, or a seat a bot has taken over, to act
+ */
+export function isBotTurn(room: Room): boolean {
+  const actingPlayerId = getActingPlayerId(room);
+  if (room.state !== 'playing' || !actingPlayerId) {
+    return false;
+  }
+  const player = room.players[actingPlayerId];
+  return player?.isBot === true || player?.autoPilot === true;
+}
+
+/**
+ * Decide whether a bot should draw another card, scoring its hand with the
+ * room's Flip 7 bonus and scoring mode
+ */
+export function shouldBotHit(
+  hand: Card[],
+  difficulty: BotDifficulty,
+  settings: Pick<RoomSettings, 'flip7Bonus' | 'scoringMode'>
+): boolean {
+  const profile = BOT_PROFILES[difficulty];
+  const { score } = calculateHandScore(hand, settings.flip7Bonus, settings.scoringMode);
+  const numberCards = hand.filter(card => card.type === 'number').length;
+
+  return score < profile.stayAtScore && numberCards < profile.stayAtNumberCards;
+}
+
+/**
+ * Pick a target for a bot's Freeze, Flip Three or spare Second Chance card
+ */
+export function chooseBotTarget(room: Room, botId: string, actionType: PendingAction['type']): string {
+  if (actionType === 'secondChance') {
+    // Give a spare Second Chance to the player furthest behind
+    const recipients = getSecondChanceRecipients(room.players, botId)
+      .map(id => room.players[id])
+      .sort((a, b) => a.totalScore - b.totalScore);
+    return recipients[0]?.id ?? botId;
+  }
+
+  const opponents = Object.values(room.players)
+    .filter(player => player.id !== botId && player.status === 'active');
+
+  if (opponents.length === 0) {
+    return botId;
+  }
+
+  const ranked = [...opponents].sort((a, b) => {
+    if (actionType === 'freeze') {
+      // Freeze the player who is furthest ahead
+      const aTotal = a.totalScore + calculateHandScore(a.hand, room.settings.flip7Bonus, room.settings.scoringMode).score;
+      const bTotal = b.totalScore + calculateHandScore(b.hand, room.settings.flip7Bonus, room.settings.scoringMode).score;
+      return bTotal - aTotal;
+    }
+    // Flip Three the player holding the most numbers, who is most likely to bust
+    const aNumbers = a.hand.filter(card => card.type === 'number').length;
+    const bNumbers = b.hand.filter(card => card.type === 'number').length;
+    return bNumbers - aNumbers;
+  });
+
+  return ranked[0].id;
+}
+
+/**
+ * Choose the next move for the bot whose turn it is
+ */
+export function chooseBotIntent(room: Room, botId: string): PlayerIntent {
+  const bot = room.players[botId];
+  const intent = { roomCode: room.code, playerId: botId };
+
+  if (room.pendingAction?.playerId === botId) {
+    return {
+      ...intent,
+      action: 'selectTarget',
+      targetPlayerId: chooseBotTarget(room, botId, room.pendingAction.type),
+    };
+  }
+
+  return {
+    ...intent,
+    action: shouldBotHit(bot.hand, bot.botDifficulty ?? 'balanced', room.settings) ? 'hit' : 'stay',
+  };
+}
+
+/**
+ * Choose the move played for someone whose turn deadline has passed. A
+ * pending target is always picked for them, since skipping or staying
+ * can't resolve it.
+ */
+export function chooseTimeoutIntent(room: Room, playerId: string, policy: TurnTimeoutPolicy): PlayerIntent {
+  const intent = { roomCode: room.code, playerId };
+
+  if (room.pendingAction?.playerId === playerId) {
+    return {
+      ...intent,
+      action: 'selectTarget',
+      targetPlayerId: chooseBotTarget(room, playerId, room.pendingAction.type),
+    };
+  }
+
+  switch (policy) {
+    case 'autoSkip':
+      return { ...intent, action: 'skipTurn' };
+    case 'botTakeover':
+      return chooseBotIntent(room, playerId);
+    default:
+      return { ...intent, action: 'stay' };
+  }
+}
@@ -7,7 +7,14 @@ import {
   createAndShuffleDeck,
   detectCardType,
   isHandBusted,
-  getCardDisplayInfo
+  getCardDisplayInfo,
+  getUnseenCards,
+  calculateDrawRisk,
+  countCardsByFace,
+  validateDeckDefinition,
+  createSeededRandom,
+  CARD_DISTRIBUTION,
+  DECK_PRESETS
 } from './cardSystem';
 import type { Card } from '../types';
 
@@ -118,6 +125,109 @@ const { card: visibleCard, remainingDeck: finalDeck } = dealOneCard(testHand);
 console.log(`   ✅ Dealt card visibility: ${visibleCard.isVisible ? 'Visible' : 'Hidden'} (should be Visible)`);
 console.log(`   📊 Card details: ${visibleCard.id} - ${visibleCard.type} card`);
 
+// Test 13: Draw risk against hand-computed odds
+console.log('\n13. Testing draw risk odds...');
+const num = (value: number): Card => ({ id: `n${value}`, type: 'number', value, isFlipped: true, isVisible: true });
+const mod = (modifier: Card['modifier']): Card => ({ id: `m${modifier}`, type: 'modifier', modifier, isFlipped: true, isVisible: true });
+const act = (action: Card['action']): Card => ({ id: `a${action}`, type: 'action', action, isFlipped: true, isVisible: true });
+
+function expectOdds(label: string, actual: number, expected: number) {
+  if (Math.abs(actual - expected) > 1e-9) {
+    throw new Error(`${label}: expected ${expected}, got ${actual}`);
+  }
+  console.log(`   ✅ ${label}: ${actual}`);
+}
+
+// Hand 5 vs [5, 7, +4, Freeze]: bust 1/4, delta (-5 + 7 + 4 + 0) / 4
+const basicRisk = calculateDrawRisk([num(5)], [num(5), num(7), mod('plus4'), act('freeze')]);
+expectOdds('Bust on one duplicate in four', basicRisk.bustProbability, 0.25);
+expectOdds('Expected delta with a modifier', basicRisk.expectedScoreDelta, 1.5);
+expectOdds('No Flip 7 from one card', basicRisk.flip7Probability, 0);
+
+// Second Chance absorbs the duplicate: delta (0 + 6) / 2
+const secondChanceRisk = calculateDrawRisk([num(5), act('secondChance')], [num(5), num(6)]);
+expectOdds('Second Chance prevents bust', secondChanceRisk.bustProbability, 0);
+expectOdds('Second Chance keeps the score', secondChanceRisk.expectedScoreDelta, 3);
+
+// Six unique numbers (0-5 = 15) vs [6, 3]: 6 gives 21 + 15 bonus, 3 busts
+const flip7Risk = calculateDrawRisk([num(0), num(1), num(2), num(3), num(4), num(5)], [num(6), num(3)]);
+expectOdds('Flip 7 on one of two cards', flip7Risk.flip7Probability, 0.5);
+expectOdds('Bust on the other', flip7Risk.bustProbability, 0.5);
+expectOdds('Expected delta includes Flip 7 bonus', flip7Risk.expectedScoreDelta, (21 - 15) / 2);
+
+// Hand 4 x2 (= 8) vs [4, 2]: 2 gives (4 + 2) x2 = 12, 4 busts
+const doubledRisk = calculateDrawRisk([num(4), mod('x2')], [num(4), num(2)]);
+expectOdds('Expected delta under x2', doubledRisk.expectedScoreDelta, (4 - 8) / 2);
+
+// Nothing left to draw
+const emptyRisk = calculateDrawRisk([num(3)], []);
+expectOdds('No risk from an empty pool', emptyRisk.bustProbability, 0);
+
+// Full deck: 13 twelves, one in hand, 110 unseen cards
+const unseen = getUnseenCards([num(12)]);
+expectOdds('Unseen cards exclude visible ones', unseen.length, generateDeck().length - 1);
+expectOdds('Bust odds holding a 12', calculateDrawRisk([num(12)], unseen).bustProbability, 12 / 110);
+
+// Holding a 2 and a 3 with another 2 and 3 discarded: 1 two + 2 threes left of 107
+const discardAware = calculateDrawRisk([num(2), num(3)], getUnseenCards([num(2), num(3), num(2), num(3)]));
+expectOdds('Bust odds account for discards', discardAware.bustProbability, 3 / 107);
+
+// Test 14: House-rule deck definitions
+console.log('\n14. Testing deck definitions...');
+const countType = (cards: Card[], type: Card['type']) => cards.filter(card => card.type === type).length;
+expectOdds('Official deck size', generateDeck(DECK_PRESETS.official).length, generateDeck().length);
+expectOdds('No action cards', countType(generateDeck(DECK_PRESETS.noActions), 'action'), 0);
+expectOdds('Double modifiers', countType(generateDeck(DECK_PRESETS.doubleModifiers), 'modifier'), 22);
+expectOdds('High stakes x2 cards', generateDeck(DECK_PRESETS.highStakes).filter(card => card.modifier === 'x2').length, 6);
+for (const [preset, definition] of Object.entries(DECK_PRESETS)) {
+  expectOdds(`Preset ${preset} is valid`, validateDeckDefinition(definition).errors.length, 0);
+}
+
+const tooFewNumbers = { ...CARD_DISTRIBUTION, number: { ...CARD_DISTRIBUTION.number, 12: 0, 11: 0, 10: 0, 9: 0, 8: 0 } };
+expectOdds('Rejects too few number cards', validateDeckDefinition(tooFewNumbers).errors.length, 1);
+const badCount = { ...CARD_DISTRIBUTION, action: { ...CARD_DISTRIBUTION.action, freeze: -1 } };
+expectOdds('Rejects negative counts', validateDeckDefinition(badCount).errors.length, 1);
+const unknownCard = { ...CARD_DISTRIBUTION, modifier: { ...CARD_DISTRIBUTION.modifier, x3: 1 } };
+expectOdds('Rejects unknown cards', validateDeckDefinition(unknownCard).errors.length, 1);
+console.log('   ✅ Presets build the expected decks and invalid definitions are rejected');
+
+// Test 15: Seeded shuffling is reproducible
+console.log('\n15. Testing seeded shuffling...');
+const seededIds = (seed: number) => createAndShuffleDeck(CARD_DISTRIBUTION, seed).map(card => card.id).join(',');
+expectOdds('Same seed, same order', Number(seededIds(12345) === seededIds(12345)), 1);
+expectOdds('Different seed, different order', Number(seededIds(12345) === seededIds(54321)), 0);
+// Pinned values: a change here means recorded games can no longer be replayed
+expectOdds('First seeded value', createSeededRandom(12345)(), 0.9797282677609473);
+expectOdds('Pinned deck order', Number(seededIds(12345).startsWith('card_12,card_22,card_31,card_101,card_56,')), 1);
+console.log('   ✅ Seeds reproduce the same deck order');
+
+// Test 16: Official and legacy modifier arithmetic
+console.log('\n16. Testing scoring modes...');
+const modifiedHand = [num(5), num(7), mod('x2'), mod('plus4')];
+// Official: 12 × 2 + 4; legacy: (12 + 4) × 2
+expectOdds('Official doubles only the numbers', calculateHandScore(modifiedHand, 15, 'official').score, 28);
+expectOdds('Legacy doubles the +N cards too', calculateHandScore(modifiedHand, 15, 'legacy').score, 32);
+
+const modifiedFlip7Hand = [0, 1, 2, 3, 4, 5, 6].map(num).concat([mod('x2'), mod('plus10')]);
+// Official: 21 × 2 + 10 + 15; legacy: (21 + 10) × 2 + 15
+const officialFlip7 = calculateHandScore(modifiedFlip7Hand, 15, 'official');
+expectOdds('Official Flip 7 hand', officialFlip7.score, 67);
+expectOdds('Legacy Flip 7 hand', calculateHandScore(modifiedFlip7Hand, 15, 'legacy').score, 77);
+expectOdds('Flat bonus in the breakdown', officialFlip7.breakdown.flatBonus, 10);
+expectOdds('Every step is in the breakdown', Number(
+  officialFlip7.breakdown.steps.map(step => `${step.label}=${step.total}`).join(',') === 'Numbers=21,×2=42,+10=52,+15 Flip 7=67'
+), 1);
+console.log('   ✅ ×2 applies before flat bonuses in official scoring');
+
+// Test 17: Unseen card counts for the card tracker
+console.log('\n17. Testing unseen card counts...');
+const unseenCounts = countCardsByFace(getUnseenCards([num(12), num(12), act('freeze'), mod('x2')]));
+expectOdds('Eleven 12s left of thirteen', unseenCounts.number[12], 11);
+expectOdds('The single 0 is unseen', unseenCounts.number[0], 1);
+expectOdds('Two Freezes left of three', unseenCounts.action.freeze, 2);
+expectOdds('Two ×2 left of three', unseenCounts.modifier.x2, 2);
+console.log('   ✅ Unseen cards are counted by face');
+
 console.log('\n🎉 All card system tests completed successfully!');
 console.log('\n📋 Summary of implemented features:');
 console.log('   ✅ Card frequency distribution (official Flip 7 rules)');
@@ -129,4 +239,9 @@ console.log('   ✅ Card scoring logic with modifiers');
 console.log('   ✅ Bust detection (sum > 7)');
 console.log('   ✅ Flip 7 protection (can\'t bust with 7)');
 console.log('   ✅ Card display information for UI');
+console.log('   ✅ Draw risk odds (bust, Flip 7, expected score)');
+console.log('   ✅ House-rule deck definitions and validation');
+console.log('   ✅ Seeded, reproducible shuffling');
+console.log('   ✅ Official and legacy modifier scoring');
+console.log('   ✅ Unseen card counts by face');
 console.log('   ✅ Complete deck management system'); 
\ No newline at end of file
@@ -1,7 +1,7 @@
-import type { Card, CardType, ActionCardType, ModifierCardType } from '../types';
+import type { Card, CardType, ActionCardType, ModifierCardType, DeckDefinition, DeckPreset, ScoringMode } from '../types';
 
 // Card frequency distribution according to official Flip 7 rules
-const CARD_DISTRIBUTION = {
+export const CARD_DISTRIBUTION: DeckDefinition = {
   // Number cards (0-12)
   number: {
     0: 1,  // 1 zero
@@ -34,15 +34,83 @@ const CARD_DISTRIBUTION = {
   }
 };
 
+// House-rule decks built from the official distribution
+export const DECK_PRESETS: Record<Exclude<DeckPreset, 'custom'>, DeckDefinition> = {
+  official: CARD_DISTRIBUTION,
+  noActions: {
+    ...CARD_DISTRIBUTION,
+    action: { freeze: 0, flipThree: 0, secondChance: 0 },
+  },
+  doubleModifiers: {
+    ...CARD_DISTRIBUTION,
+    modifier: { plus4: 4, plus6: 4, plus8: 4, plus10: 4, x2: 6 },
+  },
+  highStakes: {
+    ...CARD_DISTRIBUTION,
+    modifier: { ...CARD_DISTRIBUTION.modifier, x2: 6 },
+  },
+};
+
+// Limits that keep a custom deck playable
+export const MAX_CARD_COPIES = 20;
+export const MIN_NUMBER_CARDS = 40;
+export const MAX_DECK_SIZE = 200;
+
+const NUMBER_VALUES = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12];
+const ACTION_TYPES: ActionCardType[] = ['freeze', 'flipThree', 'secondChance'];
+const MODIFIER_TYPES: ModifierCardType[] = ['plus4', 'plus6', 'plus8', 'plus10', 'x2'];
+
 /**
- * Generate a complete deck of Flip 7 cards
+ * Validate a deck definition: every card type must be known, each count a
+ * whole number up to MAX_CARD_COPIES, and the totals must make a playable deck
  */
-export function generateDeck(): Card[] {
+export function validateDeckDefinition(definition: DeckDefinition): { isValid: boolean; errors: string[] } {
+  const errors: string[] = [];
+  const sections: [string, Record<string, number>, string[]][] = [
+    ['number', definition.number ?? {}, NUMBER_VALUES.map(String)],
+    ['action', definition.action ?? {}, ACTION_TYPES],
+    ['modifier', definition.modifier ?? {}, MODIFIER_TYPES],
+  ];
+
+  for (const [section, counts, knownKeys] of sections) {
+    for (const [key, count] of Object.entries(counts)) {
+      if (!knownKeys.includes(key)) {
+        errors.push(`Unknown ${section} card: ${key}`);
+      } else if (!Number.isInteger(count) || count < 0 || count > MAX_CARD_COPIES) {
+        errors.push(`Invalid count for ${section} card ${key}: ${count}`);
+      }
+    }
+  }
+
+  const numberCards = Object.values<number>(definition.number ?? {}).reduce((sum, count) => sum + count, 0);
+  const totalCards = sections.reduce(
+    (sum, [, counts]) => sum + Object.values(counts).reduce((sectionSum, count) => sectionSum + count, 0),
+    0
+  );
+
+  if (numberCards < MIN_NUMBER_CARDS) {
+    errors.push(`A deck needs at least ${MIN_NUMBER_CARDS} number cards (has ${numberCards})`);
+  }
+  if (totalCards > MAX_DECK_SIZE) {
+    errors.push(`A deck can have at most ${MAX_DECK_SIZE} cards (has ${totalCards})`);
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Generate a complete deck of Flip 7 cards, using the official distribution
+ * unless a house-rule deck definition is given
+ */
+export function generateDeck(definition: DeckDefinition = CARD_DISTRIBUTION): Card[] {
   const deck: Card[] = [];
   let cardId = 1;
 
   // Generate number cards (0-12)
-  for (const [value, count] of Object.entries(CARD_DISTRIBUTION.number)) {
+  for (const [value, count] of Object.entries(definition.number)) {
     const numValue = parseInt(value);
     for (let i = 0; i < count; i++) {
       deck.push({
@@ -56,7 +124,7 @@ export function generateDeck(): Card[] {
   }
 
   // Generate action cards
-  for (const [action, count] of Object.entries(CARD_DISTRIBUTION.action)) {
+  for (const [action, count] of Object.entries(definition.action)) {
     for (let i = 0; i < count; i++) {
       deck.push({
         id: `card_${cardId++}`,
@@ -69,7 +137,7 @@ export function generateDeck(): Card[] {
   }
 
   // Generate modifier cards
-  for (const [modifier, count] of Object.entries(CARD_DISTRIBUTION.modifier)) {
+  for (const [modifier, count] of Object.entries(definition.modifier)) {
     for (let i = 0; i < count; i++) {
       deck.push({
         id: `card_${cardId++}`,
@@ -85,12 +153,35 @@ export function generateDeck(): Card[] {
 }
 
 /**
- * Shuffle the deck using Fisher-Yates algorithm
+ * Create a seeded pseudo-random number generator (mulberry32). It only uses
+ * 32-bit integer math, so a seed gives the same sequence on every platform.
  */
-export function shuffleDeck(deck: Card[]): Card[] {
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Pick a fresh 32-bit seed for a round
+ */
+export function createRoundSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
+
+/**
+ * Shuffle the deck using Fisher-Yates algorithm. Pass a seeded random
+ * function to get a reproducible order.
+ */
+export function shuffleDeck(deck: Card[], random: () => number = Math.random): Card[] {
   const shuffled = [...deck];
   for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
   }
   return shuffled;
@@ -244,17 +335,38 @@ function getModifierCardInfo(modifier: ModifierCardType) {
   };
 }
 
+// Points added by each flat modifier card
+const FLAT_MODIFIER_VALUES: Record<Exclude<ModifierCardType, 'x2'>, number> = {
+  plus4: 4,
+  plus6: 6,
+  plus8: 8,
+  plus10: 10,
+};
+
+// One step of the score math, with the running total after it
+export interface ScoreStep {
+  label: string; // e.g. 'Numbers', '×2', '+4', '+15 Flip 7'
+  total: number;
+}
+
 /**
- * Calculate score for a hand of cards according to official Flip 7 rules
+ * Calculate score for a hand of cards. Official scoring doubles only the
+ * number cards before adding +N cards; legacy scoring doubles the +N cards too.
  */
-export function calculateHandScore(cards: Card[]): {
+export function calculateHandScore(
+  cards: Card[],
+  flip7Bonus: number = 15,
+  scoringMode: ScoringMode = 'official'
+): {
   score: number;
   hasFlip7: boolean;
   modifiers: ModifierCardType[];
   breakdown: {
-    numberCards: number;
+    numberCards: number; // Sum of the number cards
     modifierMultiplier: number;
+    flatBonus: number; // Sum of the +N cards
     flip7Bonus: number;
+    steps: ScoreStep[]; // The math in the order it was applied
   };
 } {
   // Get only number cards for scoring
@@ -273,7 +385,9 @@ export function calculateHandScore(cards: Card[]): {
       breakdown: {
         numberCards: 0,
         modifierMultiplier: 1,
+        flatBonus: 0,
         flip7Bonus: 0,
+        steps: [],
       },
     };
   }
@@ -290,39 +404,52 @@ export function calculateHandScore(cards: Card[]): {
   // Check for Flip 7 (7 unique number cards)
   const hasFlip7 = uniqueNumbers.size === 7;
   
-  // Collect and apply modifier cards during play
+  // Collect modifier cards in the order they were drawn
   const modifiers: ModifierCardType[] = [];
+  const flatModifiers: Exclude<ModifierCardType, 'x2'>[] = [];
   let modifierMultiplier = 1;
   
   for (const card of cards) {
     if (card.type === 'modifier' && card.modifier) {
       modifiers.push(card.modifier);
-      switch (card.modifier) {
-        case 'plus4':
-          numberCardsScore += 4;
-          break;
-        case 'plus6':
-          numberCardsScore += 6;
-          break;
-        case 'plus8':
-          numberCardsScore += 8;
-          break;
-        case 'plus10':
-          numberCardsScore += 10;
-          break;
-        case 'x2':
-          modifierMultiplier *= 2;
-          break;
+      if (card.modifier === 'x2') {
+        modifierMultiplier *= 2;
+      } else {
+        flatModifiers.push(card.modifier);
       }
     }
   }
+
+  // Apply each step in order, keeping the running total for display
+  const steps: ScoreStep[] = [{ label: 'Numbers', total: numberCardsScore }];
+  let finalScore = numberCardsScore;
+  const applyMultiplier = () => {
+    if (modifierMultiplier > 1) {
+      finalScore *= modifierMultiplier;
+      steps.push({ label: `×${modifierMultiplier}`, total: finalScore });
+    }
+  };
+  const applyFlatModifiers = () => {
+    for (const modifier of flatModifiers) {
+      finalScore += FLAT_MODIFIER_VALUES[modifier];
+      steps.push({ label: `+${FLAT_MODIFIER_VALUES[modifier]}`, total: finalScore });
+    }
+  };
+
+  if (scoringMode === 'official') {
+    applyMultiplier();
+    applyFlatModifiers();
+  } else {
+    applyFlatModifiers();
+    applyMultiplier();
+  }
   
-  // Calculate final score (modifiers applied during play)
-  let finalScore = numberCardsScore * modifierMultiplier;
-  
-  // Add Flip 7 bonus (15 points) if 7 unique number cards
-  const flip7Bonus = hasFlip7 ? 15 : 0;
-  finalScore += flip7Bonus;
+  // Add the Flip 7 bonus (15 points by default) last, if 7 unique number cards
+  const bonus = hasFlip7 ? flip7Bonus : 0;
+  if (bonus > 0) {
+    finalScore += bonus;
+    steps.push({ label: `+${bonus} Flip 7`, total: finalScore });
+  }
   
   return {
     score: finalScore,
@@ -331,11 +458,123 @@ export function calculateHandScore(cards: Card[]): {
     breakdown: {
       numberCards: numberCardsScore,
       modifierMultiplier,
-      flip7Bonus,
+      flatBonus: flatModifiers.reduce((sum, modifier) => sum + FLAT_MODIFIER_VALUES[modifier], 0),
+      flip7Bonus: bonus,
+      steps,
     },
   };
 }
 
+// Odds for drawing one more card
+export interface DrawRisk {
+  bustProbability: number; // Chance the next card busts the hand
+  flip7Probability: number; // Chance the next card completes Flip 7
+  expectedScoreDelta: number; // Expected change in hand score after the next card
+}
+
+/**
+ * Check if two cards have the same face (ignoring id and visibility)
+ */
+function isSameFace(a: Card, b: Card): boolean {
+  return a.type === b.type && a.value === b.value && a.action === b.action && a.modifier === b.modifier;
+}
+
+/**
+ * Get the cards that have not been seen yet: the full deck composition
+ * minus every visible card (hands on the table and the discard pile)
+ */
+export function getUnseenCards(visibleCards: Card[], definition: DeckDefinition = CARD_DISTRIBUTION): Card[] {
+  const unseen = generateDeck(definition);
+
+  for (const card of visibleCards) {
+    const index = unseen.findIndex(candidate => isSameFace(candidate, card));
+    if (index !== -1) {
+      unseen.splice(index, 1);
+    }
+  }
+
+  return unseen;
+}
+
+/**
+ * Count cards by face, in the same shape as a deck composition. Every face
+ * in the definition is listed, with 0 when none of its cards are given.
+ */
+export function countCardsByFace(cards: Card[], definition: DeckDefinition = CARD_DISTRIBUTION): DeckDefinition {
+  const zeroCounts = (counts: Record<string, number>) =>
+    Object.fromEntries(Object.keys(counts).map(key => [key, 0]));
+  const counts = {
+    number: zeroCounts(definition.number),
+    action: zeroCounts(definition.action),
+    modifier: zeroCounts(definition.modifier),
+  } as DeckDefinition;
+
+  for (const card of cards) {
+    if (card.type === 'number' && card.value !== undefined) {
+      counts.number[card.value] = (counts.number[card.value] ?? 0) + 1;
+    } else if (card.type === 'action' && card.action) {
+      counts.action[card.action] = (counts.action[card.action] ?? 0) + 1;
+    } else if (card.type === 'modifier' && card.modifier) {
+      counts.modifier[card.modifier] = (counts.modifier[card.modifier] ?? 0) + 1;
+    }
+  }
+
+  return counts;
+}
+
+/**
+ * Calculate the exact odds of drawing one more card, assuming the next card
+ * is equally likely to be any of the unseen cards. Action cards other than
+ * Second Chance are treated as not changing the score.
+ */
+export function calculateDrawRisk(
+  hand: Card[],
+  unseenCards: Card[],
+  flip7Bonus: number = 15,
+  scoringMode: ScoringMode = 'official'
+): DrawRisk {
+  if (unseenCards.length === 0) {
+    return {
+      bustProbability: 0,
+      flip7Probability: 0,
+      expectedScoreDelta: 0,
+    };
+  }
+
+  const currentScore = calculateHandScore(hand, flip7Bonus, scoringMode).score;
+  const heldNumbers = new Set(
+    hand.filter(card => card.type === 'number').map(card => card.value)
+  );
+  const hasSecondChance = hand.some(card => card.type === 'action' && card.action === 'secondChance');
+
+  let bustCount = 0;
+  let flip7Count = 0;
+  let totalDelta = 0;
+
+  for (const card of unseenCards) {
+    if (card.type === 'number' && heldNumbers.has(card.value)) {
+      // Second Chance discards the duplicate, leaving the score unchanged
+      if (!hasSecondChance) {
+        bustCount++;
+        totalDelta -= currentScore;
+      }
+      continue;
+    }
+
+    const next = calculateHandScore([...hand, card], flip7Bonus, scoringMode);
+    if (next.hasFlip7 && heldNumbers.size === 6) {
+      flip7Count++;
+    }
+    totalDelta += next.score - currentScore;
+  }
+
+  return {
+    bustProbability: bustCount / unseenCards.length,
+    flip7Probability: flip7Count / unseenCards.length,
+    expectedScoreDelta: totalDelta / unseenCards.length,
+  };
+}
+
 /**
  * Check if a hand is busted (has duplicate number cards)
  */
@@ -375,9 +614,21 @@ export function getCardDisplayInfo(card: Card): {
 }
 
 /**
- * Create a new deck and shuffle it
+ * Create a new deck and shuffle it. The same seed and definition always
+ * produce the same deck order.
  */
-export function createAndShuffleDeck(): Card[] {
-  const deck = generateDeck();
-  return shuffleDeck(deck);
-} 
\ No newline at end of file
+export function createAndShuffleDeck(
+  definition: DeckDefinition = CARD_DISTRIBUTION,
+  seed: number = createRoundSeed()
+): Card[] {
+  const deck = generateDeck(definition);
+  return shuffleDeck(deck, createSeededRandom(seed));
+}
+
+/**
+ * Turn the discard pile face down and shuffle it into a new draw pile
+ */
+export function reshuffleDiscardPile(discardPile: Card[], seed: number): Card[] {
+  const faceDown = discardPile.map(card => ({ ...card, isFlipped: false, isVisible: false }));
+  return shuffleDeck(faceDown, createSeededRandom(seed));
+}
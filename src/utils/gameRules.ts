@@ -1,9 +1,26 @@
-import type { Room, Player, Card, PlayerStatus, GameState } from '../types';
-import { calculateHandScore, dealOneCard, createAndShuffleDeck } from './cardSystem';
+import type { Room, Player, Card, PlayerStatus, GameState, PlayerIntent, RoomSettings, GameEffectType, PendingAction, TiePolicy } from '../types';
+import { calculateHandScore, dealOneCard, createAndShuffleDeck, createRoundSeed, reshuffleDiscardPile, validateDeckDefinition, CARD_DISTRIBUTION } from './cardSystem';
 
-// Game Constants
+// Game Constants (defaults for new rooms; each room can override them in its settings)
+export const TARGET_SCORE = 200;
 export const FLIP_7_BONUS = 15;
 export const MAX_ROUNDS = 5;
+export const TURN_TIMER_SECONDS = 30;
+
+export const DEFAULT_ROOM_SETTINGS: RoomSettings = {
+  targetScore: TARGET_SCORE,
+  maxRounds: MAX_ROUNDS,
+  flip7Bonus: FLIP_7_BONUS,
+  turnTimerSeconds: TURN_TIMER_SECONDS,
+  turnTimeoutPolicy: 'autoStay',
+  showRiskHints: false,
+  showCardTracker: true,
+  deckPreset: 'official',
+  deck: CARD_DISTRIBUTION,
+  freezeRule: 'official',
+  scoringMode: 'official',
+  tiePolicy: 'suddenDeath',
+};
 
 // Player Status Types
 export type TurnStatus = 'active' | 'stayed' | 'busted' | 'frozen' | 'flippingThree';
@@ -18,7 +35,7 @@ export interface GameActionResult {
 }
 
 export interface GameEffect {
-  type: 'freeze' | 'flipThree' | 'secondChance' | 'bust' | 'flip7' | 'stay' | 'gameOver';
+  type: GameEffectType;
   targetPlayerId?: string;
   sourcePlayerId?: string;
   cards?: Card[];
@@ -36,50 +53,302 @@ export interface RoundState {
   winner: string | null;
 }
 
+// A card drawn from the top of the draw pile
+interface CardDraw {
+  card: Card;
+  deck: Card[];
+  discardPile: Card[];
+  reshuffleEffect?: GameEffect; // Set when the discard pile became the new draw pile
+}
+
+/**
+ * Seed for reshuffling the discard pile, mixed from the round's seed and the
+ * cards being reshuffled so a replay reshuffles them the same way
+ */
+function getReshuffleSeed(roundSeed: number, discardPile: Card[]): number {
+  let seed = roundSeed >>> 0;
+  for (const card of discardPile) {
+    for (let i = 0; i < card.id.length; i++) {
+      seed = Math.imul(seed ^ card.id.charCodeAt(i), 0x01000193) >>> 0;
+    }
+  }
+  return seed;
+}
+
 /**
- * Initialize a new round
+ * Draw the top card. When the draw pile has run out the discard pile is
+ * shuffled into a new one first; cards still on the table stay where they
+ * are. Returns null when every card is on the table.
  */
-export function initializeRound(room: Room): Room {
-  // Create a fresh shuffled deck for the new round
-  const shuffledDeck = createAndShuffleDeck();
+function drawCard(deck: Card[], discardPile: Card[], roundSeed: number): CardDraw | null {
+  if (deck.length > 0) {
+    const { card, remainingDeck } = dealOneCard(deck);
+    return { card, deck: remainingDeck, discardPile };
+  }
+  if (discardPile.length === 0) {
+    return null;
+  }
+
+  const newDeck = reshuffleDiscardPile(discardPile, getReshuffleSeed(roundSeed, discardPile));
+  const { card, remainingDeck } = dealOneCard(newDeck);
+  return {
+    card,
+    deck: remainingDeck,
+    discardPile: [],
+    reshuffleEffect: {
+      type: 'reshuffle',
+      message: `The draw pile ran out, so ${discardPile.length} discarded cards were shuffled into a new one`,
+    },
+  };
+}
+
+// Seed the current round was dealt with
+function getRoundSeed(room: Room): number {
+  return room.roundSeeds[room.round - 1] ?? 0;
+}
+
+/**
+ * Initialize a new round. The round's seed is recorded on the room so the
+ * deck order can be rebuilt later; pass a seed to replay a recorded round.
+ * The first round of a game gets a fresh deck from the room's composition;
+ * later rounds keep drawing from it, with last round's hands discarded.
+ */
+export function initializeRound(room: Room, seed: number = createRoundSeed()): Room {
+  const isFirstRound = room.round === 0;
+  let remainingDeck = isFirstRound ? createAndShuffleDeck(room.settings.deck, seed) : room.deck;
+  let discardPile = isFirstRound
+    ? []
+    : [...room.discardPile, ...Object.values(room.players).flatMap(player => player.hand)];
   
-  // Deal one card to each player
+  // The button moves one seat left each round, and the first game's first
+  // round is dealt by the first player to sit down
+  const seats = getSeatOrder(room.players, room.seatOrder);
+  const dealerId = room.dealerId && seats.includes(room.dealerId)
+    ? seats[(seats.indexOf(room.dealerId) + 1) % seats.length]
+    : seats[0];
+  const leftOfDealer = (seats.indexOf(dealerId) + 1) % seats.length;
+  const dealOrder = [...seats.slice(leftOfDealer), ...seats.slice(0, leftOfDealer)];
+
+  // In a sudden-death round only the tied leaders are dealt in
+  const suddenDeath = room.suddenDeathPlayerIds ?? [];
+  const dealtIn = suddenDeath.length > 0
+    ? dealOrder.filter(playerId => suddenDeath.includes(playerId))
+    : dealOrder;
+
+  // Deal one card to each player, starting left of the dealer
   const updatedPlayers: Record<string, Player> = {};
-  let remainingDeck = [...shuffledDeck];
   
-  for (const [playerId, player] of Object.entries(room.players)) {
-    if (remainingDeck.length > 0) {
-      const { card, remainingDeck: newDeck } = dealOneCard(remainingDeck);
-      remainingDeck = newDeck;
-      
+  for (const playerId of dealOrder) {
+    if (!dealtIn.includes(playerId)) {
+      // Sitting out counts as staying with nothing
       updatedPlayers[playerId] = {
-        ...player,
-        hand: [card],
-        status: 'active',
-        roundScore: 0, // Reset round score for new round
+        ...room.players[playerId],
+        hand: [],
+        status: 'stayed',
+        roundScore: 0,
         hasFlip7: false,
-        // Clear freeze status if player was frozen and should be unfrozen this round
-        isFrozen: player.frozenUntilRound && room.round + 1 < player.frozenUntilRound ? player.isFrozen : false,
-        frozenUntilRound: player.frozenUntilRound && room.round + 1 < player.frozenUntilRound ? player.frozenUntilRound : undefined,
+        isFrozen: false,
       };
+      continue;
     }
-  }
 
-  // Determine first player (host or first player in list)
-  const playerIds = Object.keys(updatedPlayers);
-  const firstPlayer = playerIds[0];
+    const draw = drawCard(remainingDeck, discardPile, seed);
+    if (draw) {
+      remainingDeck = draw.deck;
+      discardPile = draw.discardPile;
+    }
+    
+    updatedPlayers[playerId] = {
+      ...room.players[playerId],
+      hand: draw ? [draw.card] : [],
+      status: 'active',
+      roundScore: 0, // Reset round score for new round
+      hasFlip7: false,
+      isFrozen: false, // A Freeze only lasts for the round it was played in
+    };
+  }
 
   return {
     ...room,
     players: updatedPlayers,
+    seatOrder: seats,
+    dealerId,
     deck: remainingDeck,
-    discardPile: [],
+    discardPile,
     round: room.round + 1,
+    roundSeeds: [...room.roundSeeds.slice(0, room.round), seed],
     state: 'playing',
-    currentTurn: firstPlayer,
+    currentTurn: dealtIn[0], // The player left of the dealer goes first
+    pendingAction: null,
+    actionStack: [],
   };
 }
 
+/**
+ * Reset every player's scores and deal the first round of a new game
+ */
+export function startNewGame(room: Room, seed?: number): Room {
+  const resetPlayers: Record<string, Player> = {};
+  for (const [playerId, player] of Object.entries(room.players)) {
+    resetPlayers[playerId] = {
+      ...player,
+      hand: [],
+      roundScore: 0,
+      totalScore: 0,
+      status: 'active',
+      history: [],
+      hasFlip7: false,
+      isFrozen: false,
+    };
+  }
+
+  return initializeRound({
+    ...room,
+    players: resetPlayers,
+    round: 0,
+    roundSeeds: [],
+    winner: undefined,
+    winners: [],
+    suddenDeathPlayerIds: [],
+    pendingAction: null,
+  }, seed);
+}
+
+/**
+ * Apply a player's intent to the room. This is the single entry point used
+ * by the server, which is the only writer of game state. Replays pass the
+ * recorded seed for moves that deal a new round.
+ */
+export function applyPlayerAction(room: Room, intent: PlayerIntent, seed?: number): GameActionResult {
+  const { playerId, action, targetPlayerId } = intent;
+  const player = room.players[playerId];
+
+  // A seat that was emptied without passing the turn on can still be cleared
+  if (!player && action !== 'leaveGame') {
+    return {
+      success: false,
+      message: 'Player not found',
+    };
+  }
+
+  switch (action) {
+    case 'hit':
+    case 'stay':
+    case 'skipTurn':
+      if (room.pendingAction) {
+        return {
+          success: false,
+          message: 'A target must be chosen first',
+        };
+      }
+      if (action === 'skipTurn') {
+        return processSkipAction(room, playerId);
+      }
+      return action === 'hit'
+        ? processHitAction(room, playerId)
+        : processStayAction(room, playerId);
+
+    case 'leaveGame':
+      return processLeaveAction(room, playerId);
+
+    case 'selectTarget': {
+      const pending = room.pendingAction;
+      if (!pending || pending.playerId !== playerId) {
+        return {
+          success: false,
+          message: 'No target selection pending',
+        };
+      }
+      if (!targetPlayerId) {
+        return {
+          success: false,
+          message: 'A target player is required',
+        };
+      }
+
+      // The action card is already in the player's hand
+      const resolvingRoom: Room = { ...room, pendingAction: null };
+      if (pending.type === 'secondChance') {
+        return handleGiveSecondChance(resolvingRoom, playerId, targetPlayerId, pending.cardId);
+      }
+      return pending.type === 'freeze'
+        ? handleFreezeAction(resolvingRoom, playerId, targetPlayerId, player.hand, room.deck)
+        : handleFlipThreeAction(resolvingRoom, playerId, targetPlayerId, player.hand, room.deck);
+    }
+
+    case 'startGame': {
+      if (!player.isHost) {
+        return {
+          success: false,
+          message: 'Only the host can start the game',
+        };
+      }
+      if (room.state !== 'waiting') {
+        return {
+          success: false,
+          message: 'Game has already started',
+        };
+      }
+      const deckCheck = validateDeckDefinition(room.settings.deck);
+      if (!deckCheck.isValid) {
+        return {
+          success: false,
+          message: `Invalid deck: ${deckCheck.errors.join(', ')}`,
+        };
+      }
+      return {
+        success: true,
+        message: 'Game started',
+        updatedRoom: startNewGame(room, seed),
+      };
+    }
+
+    case 'startNextRound':
+      if (!player.isHost) {
+        return {
+          success: false,
+          message: 'Only the host can start the next round',
+        };
+      }
+      if (room.state !== 'roundEnd') {
+        return {
+          success: false,
+          message: 'The round is not over yet',
+        };
+      }
+      return {
+        success: true,
+        message: 'Next round started',
+        updatedRoom: initializeRound(room, seed),
+      };
+
+    case 'restartGame':
+      if (!player.isHost) {
+        return {
+          success: false,
+          message: 'Only the host can restart the game',
+        };
+      }
+      if (room.state !== 'gameOver') {
+        return {
+          success: false,
+          message: 'The game is not over yet',
+        };
+      }
+      return {
+        success: true,
+        message: 'Game restarted',
+        updatedRoom: startNewGame(room, seed),
+      };
+
+    default:
+      return {
+        success: false,
+        message: 'Unknown action',
+      };
+  }
+}
+
 /**
  * Check if a player has Flip 7 (7 unique number cards)
  */
@@ -103,7 +372,26 @@ export function hasBusted(cards: Card[]): boolean {
  * Check if a player can use Second Chance to avoid bust
  */
 export function canUseSecondChance(cards: Card[]): boolean {
-  return cards.some(card => card.type === 'action' && card.action === 'secondChance');
+  return countSecondChances(cards) > 0;
+}
+
+/**
+ * Count the Second Chance cards in a hand. A player may hold only one.
+ */
+export function countSecondChances(cards: Card[]): number {
+  return cards.filter(card => card.type === 'action' && card.action === 'secondChance').length;
+}
+
+/**
+ * Players who can be given an extra Second Chance: anyone else still in the
+ * round who doesn't already hold one
+ */
+export function getSecondChanceRecipients(players: Record<string, Player>, holderId: string): string[] {
+  return Object.keys(players).filter(id =>
+    id !== holderId &&
+    players[id].status === 'active' &&
+    !canUseSecondChance(players[id].hand)
+  );
 }
 
 /**
@@ -206,13 +494,13 @@ export function processHitAction(
     };
   }
 
-  // Check if player is frozen
-  if (player.isFrozen && player.frozenUntilRound && room.round < player.frozenUntilRound) {
+  // Check if player is frozen (legacy Freeze rule only; official freezes take the player out of the round)
+  if (player.isFrozen) {
     console.log('❄️ Player is frozen, skipping turn');
     // Keep frozen status and move to next player (don't clear until round ends)
     const updatedPlayers = { ...room.players };
 
-    const nextPlayerId = getNextActivePlayer(updatedPlayers, playerId, room.round);
+    const nextPlayerId = getNextActivePlayer(updatedPlayers, room.seatOrder, playerId);
     console.log('🔄 Next player after frozen skip:', nextPlayerId);
 
     return {
@@ -231,38 +519,47 @@ export function processHitAction(
     };
   }
 
-  // Deal a card
-  const { card: newCard, remainingDeck } = dealOneCard(room.deck);
-  console.log('🎴 Dealt card:', newCard);
-
-  if (!newCard) {
-    console.error('❌ No cards left in deck');
+  // Deal a card, reshuffling the discard pile first if the draw pile has run out
+  const draw = drawCard(room.deck, room.discardPile, getRoundSeed(room));
+  if (!draw) {
+    console.error('❌ No cards left to draw');
     return {
       success: false,
-      message: "No cards left in deck",
+      message: "No cards left to draw",
     };
   }
+  const { card: newCard, deck: remainingDeck } = draw;
+  const drawnRoom = { ...room, discardPile: draw.discardPile };
+  console.log('🎴 Dealt card:', newCard);
 
   // Add card to player's hand
   const newHand = [...player.hand, newCard];
   console.log('🖐️ New hand:', newHand.map(card => card.id));
 
+  const drawEffect: GameEffect = {
+    type: 'draw',
+    targetPlayerId: playerId,
+    cards: [newCard],
+    message: `${player.name} drew ${getCardDisplayName(newCard)}`,
+  };
+  const drawEffects = draw.reshuffleEffect ? [draw.reshuffleEffect, drawEffect] : [drawEffect];
+
   // Check for Flip 7
   if (hasFlip7(newHand)) {
     console.log('🎉 Flip 7 detected!');
-    return handleFlip7(room, playerId, newHand);
+    return withEffects(handleFlip7({ ...drawnRoom, deck: remainingDeck }, playerId, newHand), ...drawEffects);
   }
 
   // Check for bust
   if (hasBusted(newHand)) {
     console.log('💥 Bust detected!');
-    return handleBust(room, playerId, newHand, remainingDeck);
+    return withEffects(handleBust(drawnRoom, playerId, newHand, remainingDeck), ...drawEffects);
   }
 
   // Check for action card
   if (newCard.type === 'action') {
     console.log('⚡ Action card detected:', newCard.id);
-    return handleActionCard(room, playerId, newCard, newHand, remainingDeck);
+    return withEffects(handleActionCard(drawnRoom, playerId, newCard, newHand, remainingDeck), ...drawEffects);
   }
 
   // Regular number card - update hand and move to next player
@@ -272,18 +569,32 @@ export function processHitAction(
     hand: newHand,
   };
 
-  const nextPlayerId = getNextActivePlayer(updatedPlayers, playerId, room.round);
+  const nextPlayerId = getNextActivePlayer(updatedPlayers, room.seatOrder, playerId);
   console.log('🔄 Next player after regular hit:', nextPlayerId);
 
   return {
     success: true,
     message: `${player.name} drew ${newCard.id}`,
     updatedRoom: {
-      ...room,
+      ...drawnRoom,
       players: updatedPlayers,
       deck: remainingDeck,
       currentTurn: nextPlayerId,
     },
+    effects: drawEffects,
+  };
+}
+
+/**
+ * Put effects that led up to a result ahead of the result's own effects
+ */
+function withEffects(result: GameActionResult, ...effects: GameEffect[]): GameActionResult {
+  if (!result.success) {
+    return result;
+  }
+  return {
+    ...result,
+    effects: [...effects, ...(result.effects ?? [])],
   };
 }
 
@@ -311,7 +622,7 @@ export function processStayAction(
   }
 
   // Calculate current round score
-  const { score } = calculateHandScore(player.hand);
+  const { score } = calculateHandScore(player.hand, room.settings.flip7Bonus, room.settings.scoringMode);
   
   // Update player status to stayed and track round score
   const updatedPlayers: Record<string, Player> = {
@@ -324,11 +635,17 @@ export function processStayAction(
     },
   };
 
-  const nextTurn = getNextActivePlayer(updatedPlayers, playerId, room.round);
+  const nextTurn = getNextActivePlayer(updatedPlayers, room.seatOrder, playerId);
+  const stayEffect: GameEffect = {
+    type: 'stay',
+    targetPlayerId: playerId,
+    cards: player.hand,
+    message: `${player.name} stayed with ${score} points`,
+  };
 
   // Check if round should end
   if (shouldEndRound(updatedPlayers)) {
-    return endRound(room, updatedPlayers);
+    return withEffects(endRound(room, updatedPlayers), stayEffect);
   }
 
   return {
@@ -339,14 +656,138 @@ export function processStayAction(
       players: updatedPlayers,
       currentTurn: nextTurn,
     },
+    effects: [stayEffect],
+  };
+}
+
+/**
+ * Pass a timed-out player's turn to the next player without ending their
+ * round. The last player still drawing stays instead, so the round can end.
+ */
+export function processSkipAction(
+  room: Room,
+  playerId: string
+): GameActionResult {
+  const player = room.players[playerId];
+
+  if (!player || player.status !== 'active') {
+    return {
+      success: false,
+      message: 'Player cannot be skipped at this time',
+    };
+  }
+
+  if (room.currentTurn !== playerId) {
+    return {
+      success: false,
+      message: 'Not your turn',
+    };
+  }
+
+  const nextTurn = getNextActivePlayer(room.players, room.seatOrder, playerId);
+  if (!nextTurn || nextTurn === playerId) {
+    return processStayAction(room, playerId);
+  }
+
+  return {
+    success: true,
+    message: `${player.name}'s turn was skipped`,
+    updatedRoom: {
+      ...room,
+      currentTurn: nextTurn,
+    },
     effects: [{
-      type: 'stay',
+      type: 'skip',
       targetPlayerId: playerId,
-      message: `${player.name} stayed with ${score} points`,
+      message: `${player.name} ran out of time and was skipped`,
     }],
   };
 }
 
+/**
+ * Take a player's seat out of the room. Their cards go to the discard pile and
+ * a leaving host hands the room to the next human in seat order. A player
+ * leaving mid-round while due to move passes the turn on, and the round ends
+ * if nobody is left to play it.
+ */
+export function processLeaveAction(
+  room: Room,
+  playerId: string
+): GameActionResult {
+  const player = room.players[playerId];
+  const seats = getSeatOrder(room.players, room.seatOrder);
+  const players = { ...room.players };
+  delete players[playerId];
+
+  const seatOrder = seats.filter(id => id !== playerId);
+  const humans = seatOrder.filter(id => !players[id].isBot);
+  if (humans.length === 0) {
+    return {
+      success: false,
+      message: 'The last player cannot leave the game',
+    };
+  }
+
+  const host = room.host === playerId ? humans[0] : room.host;
+  if (host !== room.host) {
+    players[host] = { ...players[host], isHost: true };
+  }
+
+  const name = player?.name ?? 'A player';
+  const leaveEffect: GameEffect = {
+    type: 'leave',
+    targetPlayerId: playerId,
+    cards: player?.hand ?? [],
+    message: `${name} left the game`,
+  };
+  const leftRoom: Room = {
+    ...room,
+    host,
+    players,
+    seatOrder,
+    discardPile: [...room.discardPile, ...(player?.hand ?? [])],
+    suddenDeathPlayerIds: (room.suddenDeathPlayerIds ?? []).filter(id => id !== playerId),
+  };
+
+  const wasActing = getActingPlayerId(room) === playerId;
+  if (room.state !== 'playing' || (!wasActing && room.currentTurn !== playerId)) {
+    return {
+      success: true,
+      message: `${name} left the game`,
+      updatedRoom: leftRoom,
+      effects: [leaveEffect],
+    };
+  }
+
+  // Hand the turn to the seat before the leaver's, so passing it on reaches
+  // the seat after theirs
+  const seatIndex = seats.indexOf(playerId);
+  const previousSeat = seatIndex > 0 ? seats[seatIndex - 1] : seatOrder[seatOrder.length - 1];
+  const turnRoom: Room = {
+    ...leftRoom,
+    currentTurn: room.currentTurn === playerId ? previousSeat : room.currentTurn,
+  };
+
+  if (!wasActing) {
+    // Someone else is choosing a target; the turn moves on once they have
+    return {
+      success: true,
+      message: `${name} left the game`,
+      updatedRoom: turnRoom,
+      effects: [leaveEffect],
+    };
+  }
+
+  // A target the leaver was choosing is dropped along with their hand
+  const resolvingRoom: Room = { ...turnRoom, pendingAction: null };
+  if (shouldEndRound(players)) {
+    return withEffects(endRound(resolvingRoom, players), leaveEffect);
+  }
+
+  // Action cards still waiting on other players are played before the turn passes
+  return continueTurn(resolvingRoom, players, room.deck, [leaveEffect], `${name} left the game`);
+}
+
 /**
  * Handle Flip 7 auto-win
  */
@@ -356,9 +797,8 @@ function handleFlip7(
   newHand: Card[]
 ): GameActionResult {
   const player = room.players[playerId];
-  const { score } = calculateHandScore(newHand);
-  const flip7Bonus = 15; // Flip 7 bonus
-  const roundScore = score + flip7Bonus;
+  // The hand score already includes the room's Flip 7 bonus
+  const { score: roundScore } = calculateHandScore(newHand, room.settings.flip7Bonus, room.settings.scoringMode);
 
   const updatedPlayers: Record<string, Player> = {
     ...room.players,
@@ -366,8 +806,7 @@ function handleFlip7(
       ...player,
       hand: newHand,
       status: 'stayed' as PlayerStatus,
-      roundScore: roundScore, // Track round score with Flip 7 bonus
-      totalScore: player.totalScore + roundScore, // Add to total score immediately for Flip 7
+      roundScore: roundScore, // Track round score with Flip 7 bonus; endRound adds it to the total
       hasFlip7: true,
     },
   };
@@ -403,28 +842,14 @@ function handleBust(
     },
   };
 
-  const nextTurn = getNextActivePlayer(updatedPlayers, playerId, room.round);
-
-  // Check if round should end
-  if (shouldEndRound(updatedPlayers)) {
-    return endRound(room, updatedPlayers);
-  }
-
-  return {
-    success: true,
-    message: 'Busted!',
-    updatedRoom: {
-      ...room,
-      players: updatedPlayers,
-      deck: remainingDeck,
-      currentTurn: nextTurn,
-    },
-    effects: [{
-      type: 'bust',
-      targetPlayerId: playerId,
-      message: `${player.name} busted!`,
-    }],
+  const bustEffect: GameEffect = {
+    type: 'bust',
+    targetPlayerId: playerId,
+    cards: newHand,
+    message: `${player.name} busted!`,
   };
+
+  return continueTurn(room, updatedPlayers, remainingDeck, [bustEffect], 'Busted!');
 }
 
 /**
@@ -447,7 +872,7 @@ function handleSecondChance(
     },
   };
 
-  const nextTurn = getNextActivePlayer(updatedPlayers, playerId, room.round);
+  const nextTurn = getNextActivePlayer(updatedPlayers, room.seatOrder, playerId);
 
   return {
     success: true,
@@ -456,6 +881,8 @@ function handleSecondChance(
       ...room,
       players: updatedPlayers,
       deck: remainingDeck,
+      // The duplicate number and the Second Chance card are both discarded
+      discardPile: [...room.discardPile, ...removedCards],
       currentTurn: nextTurn,
     },
     effects: [{
@@ -479,6 +906,14 @@ function handleActionCard(
 ): GameActionResult {
   const player = room.players[playerId];
 
+  // With nobody else left in the round, the player must target themselves
+  if ((card.action === 'freeze' || card.action === 'flipThree') &&
+      getActionTargets(room.players).every(id => id === playerId)) {
+    return card.action === 'freeze'
+      ? handleFreezeAction(room, playerId, playerId, newHand, remainingDeck)
+      : handleFlipThreeAction(room, playerId, playerId, newHand, remainingDeck);
+  }
+
   switch (card.action) {
     case 'freeze':
       // Freeze card requires player selection - return special result
@@ -496,6 +931,7 @@ function handleActionCard(
           },
           deck: remainingDeck,
           currentTurn: playerId, // Keep turn with current player for selection
+          pendingAction: { type: 'freeze', playerId, cardId: card.id },
         },
         effects: [{
           type: 'freeze',
@@ -521,6 +957,7 @@ function handleActionCard(
           },
           deck: remainingDeck,
           currentTurn: playerId, // Keep turn with current player for selection
+          pendingAction: { type: 'flipThree', playerId, cardId: card.id },
         },
         effects: [{
           type: 'flipThree',
@@ -540,7 +977,18 @@ function handleActionCard(
         },
       };
 
-      const nextTurn = getNextActivePlayer(updatedPlayers, playerId, room.round);
+      // A player may hold only one; an extra copy is passed on or discarded
+      if (canUseSecondChance(player.hand)) {
+        return continueTurn(
+          { ...room, actionStack: [...room.actionStack, { type: 'secondChance', playerId, cardId: card.id }] },
+          updatedPlayers,
+          remainingDeck,
+          [],
+          `${player.name} drew a second Second Chance`
+        );
+      }
+
+      const nextTurn = getNextActivePlayer(updatedPlayers, room.seatOrder, playerId);
 
       return {
         success: true,
@@ -578,7 +1026,10 @@ export function handleFreezeAction(
   remainingDeck: Card[]
 ): GameActionResult {
   const player = room.players[playerId];
-  const targetPlayer = room.players[targetPlayerId];
+  // A player freezing themselves banks the hand that includes the Freeze card
+  const targetPlayer = targetPlayerId === playerId
+    ? { ...player, hand: newHand }
+    : room.players[targetPlayerId];
 
   if (!targetPlayer || targetPlayer.status !== 'active') {
     return {
@@ -587,151 +1038,364 @@ export function handleFreezeAction(
     };
   }
 
-  if (targetPlayerId === playerId) {
+  // Official rules: the target banks their current points and is out for the round.
+  // Legacy rules: the target keeps their hand but skips turns until the round ends.
+  const frozenTarget: Player = room.settings.freezeRule === 'official'
+    ? {
+        ...targetPlayer,
+        status: 'stayed',
+        roundScore: calculateHandScore(targetPlayer.hand, room.settings.flip7Bonus, room.settings.scoringMode).score,
+        isFrozen: true,
+      }
+    : {
+        ...targetPlayer,
+        isFrozen: true,
+      };
+
+  const updatedPlayers: Record<string, Player> = {
+    ...room.players,
+    [playerId]: {
+      ...player,
+      hand: newHand,
+    },
+    [targetPlayerId]: frozenTarget,
+  };
+
+  const targetName = targetPlayerId === playerId ? 'themselves' : targetPlayer.name;
+  const freezeEffect: GameEffect = {
+    type: 'freeze',
+    targetPlayerId,
+    sourcePlayerId: playerId,
+    message: room.settings.freezeRule === 'official'
+      ? `${player.name} froze ${targetName}, banking ${frozenTarget.roundScore} points`
+      : `${player.name} froze ${targetName}`,
+  };
+
+  return continueTurn(room, updatedPlayers, remainingDeck, [freezeEffect], `Froze ${targetPlayer.name}`);
+}
+
+/**
+ * Handle Flip Three action card. The target flips cards one at a time: a
+ * Flip 7 or a bust stops the sequence, a held Second Chance saves them from a
+ * duplicate, and Freeze or Flip Three cards turned up along the way go on the
+ * room's action stack to be played once the sequence is over.
+ */
+export function handleFlipThreeAction(
+  room: Room,
+  playerId: string,
+  targetPlayerId: string,
+  newHand: Card[],
+  remainingDeck: Card[]
+): GameActionResult {
+  const player = room.players[playerId];
+  // A player flipping three themselves draws onto the hand holding the Flip Three card
+  const targetPlayer = targetPlayerId === playerId
+    ? { ...player, hand: newHand }
+    : room.players[targetPlayerId];
+  
+  if (!targetPlayer || targetPlayer.status !== 'active') {
     return {
       success: false,
-      message: 'Cannot freeze yourself',
+      message: 'Invalid target for Flip Three',
     };
   }
 
-  // Mark target as frozen for the remainder of this round
-  const updatedPlayers: Record<string, Player> = {
+  const players: Record<string, Player> = {
     ...room.players,
     [playerId]: {
       ...player,
       hand: newHand,
     },
+  };
+  const effects: GameEffect[] = [{
+    type: 'flipThree',
+    targetPlayerId,
+    sourcePlayerId: playerId,
+    message: targetPlayerId === playerId
+      ? `${player.name} flipped three cards themselves`
+      : `${player.name} made ${targetPlayer.name} flip three cards`,
+  }];
+  const queuedActions: PendingAction[] = [];
+  let targetHand = targetPlayer.hand;
+  let deck = remainingDeck;
+  let discardPile = room.discardPile;
+
+  for (let flip = 1; flip <= 3; flip++) {
+    const draw = drawCard(deck, discardPile, getRoundSeed(room));
+    // Every card is already on the table
+    if (!draw) {
+      break;
+    }
+    if (draw.reshuffleEffect) {
+      effects.push(draw.reshuffleEffect);
+    }
+    // Make the card visible when dealt
+    const visibleCard = { ...draw.card, isVisible: true };
+    deck = draw.deck;
+    discardPile = draw.discardPile;
+    targetHand = [...targetHand, visibleCard];
+    effects.push({
+      type: 'draw',
+      targetPlayerId,
+      sourcePlayerId: playerId,
+      cards: [visibleCard],
+      message: `${targetPlayer.name} flipped ${getCardDisplayName(visibleCard)} (${flip} of 3)`,
+    });
+
+    // Flip 7 ends the sequence and the round; queued cards are never played
+    if (hasFlip7(targetHand)) {
+      return withEffects(handleFlip7({ ...room, players, deck, discardPile }, targetPlayerId, targetHand), ...effects);
+    }
+
+    if (hasBusted(targetHand)) {
+      if (canUseSecondChance(targetHand)) {
+        const { newCards, removedCards } = applySecondChance(targetHand);
+        targetHand = newCards;
+        discardPile = [...discardPile, ...removedCards];
+        effects.push({
+          type: 'secondChance',
+          targetPlayerId,
+          cards: removedCards,
+          message: `${targetPlayer.name} used Second Chance`,
+        });
+        continue;
+      }
+      // A bust ends the sequence, and the target's queued cards are discarded
+      return withEffects(handleBust({ ...room, players, discardPile }, targetPlayerId, targetHand, deck), ...effects);
+    }
+
+    // Passing on a second Second Chance also waits until the sequence is over
+    const { action } = visibleCard;
+    if (action === 'freeze' || action === 'flipThree' ||
+        (action === 'secondChance' && countSecondChances(targetHand) > 1)) {
+      queuedActions.push({ type: action, playerId: targetPlayerId, cardId: visibleCard.id });
+    }
+  }
+
+  const updatedPlayers: Record<string, Player> = {
+    ...players,
     [targetPlayerId]: {
       ...targetPlayer,
-      isFrozen: true, // Frozen for remainder of round
-      frozenUntilRound: room.round + 1, // Will be unfrozen when next round starts
+      hand: targetHand,
     },
   };
 
-  const nextTurn = getNextActivePlayer(updatedPlayers, playerId, room.round);
+  // The first card turned up is played first, so it goes on top of the stack
+  return continueTurn(
+    { ...room, discardPile, actionStack: [...room.actionStack, ...queuedActions.reverse()] },
+    updatedPlayers,
+    deck,
+    effects,
+    `Made ${targetPlayer.name} flip three cards`
+  );
+}
+
+/**
+ * Finish resolving a move. Any action card left on the room's stack is handed
+ * to its holder to choose a target (or played on the holder when nobody else is
+ * in the round); otherwise the round ends or the turn passes on from the
+ * player whose turn it is.
+ */
+function continueTurn(
+  room: Room,
+  players: Record<string, Player>,
+  deck: Card[],
+  effects: GameEffect[],
+  message: string
+): GameActionResult {
+  const actionStack = [...room.actionStack];
+  let updatedPlayers = players;
+  let discardPile = room.discardPile;
+  const allEffects = [...effects];
+
+  while (actionStack.length > 0 && !shouldEndRound(updatedPlayers)) {
+    const next = actionStack.pop()!;
+    const holder = updatedPlayers[next.playerId];
+    // Cards held by a player who busted are discarded unplayed
+    if (!holder || holder.status === 'busted') {
+      continue;
+    }
+
+    if (next.type === 'secondChance') {
+      // Nothing to pass on if one of the copies has been used since
+      if (countSecondChances(holder.hand) < 2) {
+        continue;
+      }
+      // With nobody to give it to, the extra copy is discarded
+      if (getSecondChanceRecipients(updatedPlayers, holder.id).length === 0) {
+        const { hand, card } = takeExtraSecondChance(holder.hand, next.cardId);
+        updatedPlayers = { ...updatedPlayers, [holder.id]: { ...holder, hand } };
+        discardPile = [...discardPile, card];
+        allEffects.push({
+          type: 'secondChance',
+          targetPlayerId: holder.id,
+          cards: [card],
+          message: `${holder.name} discarded an extra Second Chance`,
+        });
+        continue;
+      }
+    }
+
+    const resolvingRoom: Room = { ...room, players: updatedPlayers, deck, discardPile, actionStack, pendingAction: null };
+    if (next.type !== 'secondChance' && getActionTargets(updatedPlayers).every(id => id === next.playerId)) {
+      return withEffects(next.type === 'freeze'
+        ? handleFreezeAction(resolvingRoom, next.playerId, next.playerId, holder.hand, deck)
+        : handleFlipThreeAction(resolvingRoom, next.playerId, next.playerId, holder.hand, deck), ...allEffects);
+    }
+
+    return {
+      success: true,
+      message: `${holder.name} must choose a target`,
+      updatedRoom: { ...resolvingRoom, pendingAction: next },
+      effects: allEffects,
+      requiresTargetSelection: true,
+    };
+  }
 
-  // Check if round should end
   if (shouldEndRound(updatedPlayers)) {
-    return endRound(room, updatedPlayers);
+    return withEffects(endRound({ ...room, deck, discardPile }, updatedPlayers), ...allEffects);
   }
 
   return {
     success: true,
-    message: `Froze ${targetPlayer.name}`,
+    message,
     updatedRoom: {
       ...room,
       players: updatedPlayers,
-      deck: remainingDeck,
-      currentTurn: nextTurn,
+      deck,
+      discardPile,
+      actionStack: [],
+      pendingAction: null,
+      currentTurn: getNextActivePlayer(updatedPlayers, room.seatOrder, room.currentTurn!),
     },
-    effects: [{
-      type: 'freeze',
-      targetPlayerId,
-      sourcePlayerId: playerId,
-      message: `${player.name} froze ${targetPlayer.name}`,
-    }],
+    effects: allEffects,
   };
 }
 
 /**
- * Handle Flip Three action card - draw 3 cards for target player
+ * Take an extra Second Chance out of a hand holding two, preferring the given card
  */
-export function handleFlipThreeAction(
+function takeExtraSecondChance(hand: Card[], cardId: string): { hand: Card[]; card: Card } {
+  const secondChances = hand.filter(card => card.type === 'action' && card.action === 'secondChance');
+  const card = secondChances.find(secondChance => secondChance.id === cardId) ?? secondChances[secondChances.length - 1];
+  return { hand: hand.filter(handCard => handCard.id !== card.id), card };
+}
+
+/**
+ * Give an extra Second Chance to another player who doesn't hold one
+ */
+export function handleGiveSecondChance(
   room: Room,
   playerId: string,
   targetPlayerId: string,
-  newHand: Card[],
-  remainingDeck: Card[]
+  cardId: string
 ): GameActionResult {
   const player = room.players[playerId];
   const targetPlayer = room.players[targetPlayerId];
-  
-  if (!targetPlayer || targetPlayer.status !== 'active') {
-    return {
-      success: false,
-      message: 'Invalid target for Flip Three',
-    };
-  }
 
-  if (targetPlayerId === playerId) {
+  if (!targetPlayer || !getSecondChanceRecipients(room.players, playerId).includes(targetPlayerId)) {
     return {
       success: false,
-      message: 'Cannot target yourself with Flip Three',
+      message: 'Invalid target for Second Chance',
     };
   }
 
-  // Draw 3 cards for the target player
-  const cardsToDraw = Math.min(3, remainingDeck.length);
-  const drawnCards: Card[] = [];
-  let newDeck = [...remainingDeck];
-
-  for (let i = 0; i < cardsToDraw; i++) {
-    const { card, remainingDeck: deck } = dealOneCard(newDeck);
-    // Make the card visible when dealt
-    const visibleCard = { ...card, isVisible: true };
-    drawnCards.push(visibleCard);
-    newDeck = deck;
-  }
-
-  const targetNewHand = [...targetPlayer.hand, ...drawnCards];
-
-  // Check for Flip 7
-  if (hasFlip7(targetNewHand)) {
-    return handleFlip7(room, targetPlayerId, targetNewHand);
-  }
-
-  // Check for bust
-  if (hasBusted(targetNewHand)) {
-    if (canUseSecondChance(targetNewHand)) {
-      return handleSecondChance(room, targetPlayerId, targetNewHand, newDeck);
-    } else {
-      return handleBust(room, targetPlayerId, targetNewHand, newDeck);
-    }
-  }
-
-  const updatedPlayers = {
+  const { hand, card } = takeExtraSecondChance(player.hand, cardId);
+  const updatedPlayers: Record<string, Player> = {
     ...room.players,
     [playerId]: {
       ...player,
-      hand: newHand,
+      hand,
     },
     [targetPlayerId]: {
       ...targetPlayer,
-      hand: targetNewHand,
-      hasFlip7: hasFlip7(targetNewHand),
+      hand: [...targetPlayer.hand, card],
     },
   };
 
-  const nextTurn = getNextActivePlayer(updatedPlayers, playerId, room.round);
-
-  return {
-    success: true,
-    message: `Made ${targetPlayer.name} flip three cards`,
-    updatedRoom: {
-      ...room,
-      players: updatedPlayers,
-      deck: newDeck,
-      currentTurn: nextTurn,
-    },
-    effects: [{
-      type: 'flipThree',
-      targetPlayerId,
-      sourcePlayerId: playerId,
-      cards: drawnCards,
-      message: `${player.name} made ${targetPlayer.name} flip three cards`,
-    }],
+  const giveEffect: GameEffect = {
+    type: 'secondChance',
+    targetPlayerId,
+    sourcePlayerId: playerId,
+    cards: [card],
+    message: `${player.name} gave a Second Chance to ${targetPlayer.name}`,
   };
+
+  return continueTurn(room, updatedPlayers, room.deck, [giveEffect], `Gave Second Chance to ${targetPlayer.name}`);
+}
+
+/**
+ * The player who must move next: the holder of a pending action card, or
+ * otherwise the player whose turn it is
+ */
+export function getActingPlayerId(room: Pick<Room, 'pendingAction' | 'currentTurn'>): string | null {
+  return room.pendingAction?.playerId ?? room.currentTurn;
+}
+
+/**
+ * Whether a move chosen on one version of the room still means the same thing
+ * on a newer one, so it can be sent again after a version conflict
+ */
+export function canReapplyIntent(seen: Room, latest: Room, intent: PlayerIntent): boolean {
+  switch (intent.action) {
+    case 'hit':
+    case 'stay':
+      return latest.state === 'playing' &&
+        latest.currentTurn === intent.playerId &&
+        !latest.pendingAction;
+    case 'selectTarget':
+      // Only the same card waiting for a target, not one drawn since
+      return latest.pendingAction?.playerId === intent.playerId &&
+        latest.pendingAction.cardId === seen.pendingAction?.cardId;
+    default:
+      // Starting a game or round still makes sense if nobody else has done it
+      return latest.state === seen.state && latest.round === seen.round;
+  }
+}
+
+/**
+ * When the acting player's time runs out, counted from `now`. Null when
+ * nobody is due to move.
+ */
+export function getTurnDeadline(room: Room, now: number): number | null {
+  if (room.state !== 'playing' || !getActingPlayerId(room)) {
+    return null;
+  }
+  return now + room.settings.turnTimerSeconds * 1000;
 }
 
 /**
- * Get the next active player in turn order
+ * Players a Freeze or Flip Three card can be played on: everyone still in the
+ * round, including the player who drew the card
+ */
+export function getActionTargets(players: Record<string, Player>): string[] {
+  return Object.keys(players).filter(id => players[id].status === 'active');
+}
+
+/**
+ * Player ids in seat order, clockwise. Players missing from the stored order,
+ * such as in rooms created before seats were recorded, sit after it in the
+ * order they joined.
+ */
+export function getSeatOrder(players: Record<string, Player>, seatOrder: string[] = []): string[] {
+  const seated = seatOrder.filter(id => players[id]);
+  const unseated = Object.values(players)
+    .filter(player => !seated.includes(player.id))
+    .sort((a, b) => new Date(a.joinedAt).getTime() - new Date(b.joinedAt).getTime())
+    .map(player => player.id);
+  return [...seated, ...unseated];
+}
+
+/**
+ * Get the next active player in turn order, going clockwise from the
+ * current player
  */
 export function getNextActivePlayer(
   players: Record<string, Player>,
-  currentPlayerId: string,
-  currentRound?: number
+  seatOrder: string[],
+  currentPlayerId: string
 ): string | null {
-  const playerIds = Object.keys(players);
+  const playerIds = getSeatOrder(players, seatOrder);
   const currentIndex = playerIds.indexOf(currentPlayerId);
   
   // Check all players starting from the next one
@@ -741,9 +1405,9 @@ export function getNextActivePlayer(
     const nextPlayer = players[nextPlayerId];
     
     if (nextPlayer.status === 'active') {
-      // Check if player is frozen using round-based logic
-      if (nextPlayer.isFrozen && currentRound && nextPlayer.frozenUntilRound && currentRound < nextPlayer.frozenUntilRound) {
-        console.log(`❄️ ${nextPlayer.name} is frozen until round ${nextPlayer.frozenUntilRound}, skipping turn`);
+      // Frozen players (legacy Freeze rule) sit out the rest of the round
+      if (nextPlayer.isFrozen) {
+        console.log(`❄️ ${nextPlayer.name} is frozen, skipping turn`);
         continue; // Skip this player and check next
       }
       return nextPlayerId;
@@ -753,10 +1417,10 @@ export function getNextActivePlayer(
 }
 
 /**
- * Check if the round should end
+ * Check if the round should end: nobody is left who can take a turn
  */
 function shouldEndRound(players: Record<string, Player>): boolean {
-  const activePlayers = Object.values(players).filter(p => p.status === 'active');
+  const activePlayers = Object.values(players).filter(p => p.status === 'active' && !p.isFrozen);
   return activePlayers.length === 0;
 }
 
@@ -774,7 +1438,7 @@ function endRound(
   for (const [playerId, player] of Object.entries(players)) {
     if (player.status === 'active') {
       // Active players get their current score calculated
-      const { score } = calculateHandScore(player.hand);
+      const { score } = calculateHandScore(player.hand, room.settings.flip7Bonus, room.settings.scoringMode);
       finalPlayers[playerId] = {
         ...player,
         status: 'stayed',
@@ -796,72 +1460,106 @@ function endRound(
     }
   }
 
-  // Check for game over conditions (200+ points or max rounds reached)
-  const allPlayersSorted = Object.entries(finalPlayers)
-    .sort(([_, a], [__, b]) => {
-      // Primary sort: highest total score
-      if (b.totalScore !== a.totalScore) {
-        return b.totalScore - a.totalScore;
-      }
-      // Tie-breaker 1: highest round score (recent performance)
-      if (b.roundScore !== a.roundScore) {
-        return b.roundScore - a.roundScore;
-      }
-      // Tie-breaker 2: fewest cards in hand (better hand management)
-      return a.hand.length - b.hand.length;
-    });
-
-  const playersWith200Plus = allPlayersSorted.filter(([_, player]) => player.totalScore >= 200);
-  let gameWinner: string | undefined;
-  let gameState: 'roundEnd' | 'gameOver' = 'roundEnd';
-
-  // Game ends if someone reaches 200+ points OR max rounds reached
-  if (playersWith200Plus.length > 0 || room.round >= MAX_ROUNDS) {
-    gameState = 'gameOver';
-    // Winner is the player with highest score (using tie-breakers)
-    gameWinner = allPlayersSorted[0][0];
-    
-    console.log(`🏆 Game Over! Winner: ${finalPlayers[gameWinner].name} with ${finalPlayers[gameWinner].totalScore} points`);
+  // Every player's result this round goes into their history
+  for (const [playerId, player] of Object.entries(finalPlayers)) {
+    finalPlayers[playerId] = {
+      ...player,
+      history: [...(player.history ?? []), {
+        round: room.round,
+        cards: player.hand,
+        score: player.roundScore,
+        status: player.status,
+        flip7Bonus: player.hasFlip7,
+      }],
+    };
   }
 
-  // Check if game should end (max rounds reached)
-  const shouldEndGame = room.round >= MAX_ROUNDS || gameState === 'gameOver';
+  // Check for game over conditions (target score or max rounds reached)
+  const { targetScore, maxRounds, tiePolicy } = room.settings;
+  const leaders = rankPlayers(finalPlayers, tiePolicy)
+    .filter(ranking => ranking.rank === 1)
+    .map(ranking => ranking.player);
+  const targetReached = Object.values(finalPlayers).some(player => player.totalScore >= targetScore);
+  const maxRoundsReached = maxRounds !== null && room.round >= maxRounds;
+  const gameEnds = targetReached || maxRoundsReached;
+  // Tied leaders play another round among themselves
+  const suddenDeath = gameEnds && leaders.length > 1 && tiePolicy === 'suddenDeath';
+  const gameWinners = gameEnds && !suddenDeath ? leaders.map(player => player.id) : [];
+  const leaderNames = leaders.map(player => player.name).join(' and ');
+
+  if (gameWinners.length > 0) {
+    console.log(`🏆 Game Over! Winner: ${leaderNames} with ${leaders[0].totalScore} points`);
+  }
 
   return {
     success: true,
     message: winner ? `${players[winner].name} won with Flip 7!` : 
-             gameWinner ? `${finalPlayers[gameWinner].name} wins with ${finalPlayers[gameWinner].totalScore} points!` :
+             suddenDeath ? `${leaderNames} are tied and play a sudden-death round` :
+             gameWinners.length > 1 ? `${leaderNames} share the win with ${leaders[0].totalScore} points!` :
+             gameWinners.length > 0 ? `${leaderNames} wins with ${leaders[0].totalScore} points!` :
              'Round ended',
     updatedRoom: {
       ...room,
       players: finalPlayers,
-      state: shouldEndGame ? 'gameOver' : 'roundEnd',
+      state: gameWinners.length > 0 ? 'gameOver' : 'roundEnd',
       currentTurn: null,
-      winner: gameWinner || winner, // Store the game winner
+      winner: gameWinners[0] || winner, // Store the game winner
+      winners: gameWinners,
+      suddenDeathPlayerIds: suddenDeath ? leaders.map(player => player.id) : [],
+      pendingAction: null,
+      actionStack: [], // Cards still waiting to be played are discarded with the round
     },
-    effects: [{
-      type: winner ? 'flip7' : gameWinner ? 'gameOver' : 'stay',
-      targetPlayerId: gameWinner || winner,
-      message: winner ? 'Flip 7! Round won!' : 
-               gameWinner ? 'Game Over! Winner declared!' : 
-               'Round ended',
-    }],
+    effects: [
+      ...(winner ? [{
+        type: 'flip7' as const,
+        targetPlayerId: winner,
+        cards: finalPlayers[winner].hand,
+        message: 'Flip 7! Round won!',
+      }] : []),
+      gameWinners.length > 0 ? {
+        type: 'gameOver',
+        targetPlayerId: gameWinners[0],
+        message: gameWinners.length > 1 ? 'Game Over! The win is shared!' : 'Game Over! Winner declared!',
+      } : {
+        type: 'roundEnd',
+        message: suddenDeath ? `Sudden death! ${leaderNames} play another round` : 'Round ended',
+      },
+    ],
   };
 }
 
-/**
- * Utility function to shuffle deck
- */
-function shuffleDeck(deck: Card[]): Card[] {
-  const shuffled = [...deck];
-  for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-  }
-  return shuffled;
+// A player's place in the standings; tied players share a rank
+export interface PlayerRanking {
+  player: Player;
+  rank: number; // 1 for the leaders
+  flip7Count: number; // Flip 7s this game, the tiebreak under the mostFlip7s policy
 }
 
+/**
+ * Rank players by total score, best first. Equal totals share a rank unless
+ * the tie policy breaks them by the most Flip 7s this game. Used for the
+ * game winner and everywhere the standings are shown.
+ */
+export function rankPlayers(players: Record<string, Player>, tiePolicy: TiePolicy): PlayerRanking[] {
+  const standings = Object.values(players).map(player => ({
+    player,
+    flip7Count: (player.history ?? []).filter(round => round.flip7Bonus).length,
+  }));
+
+  const compare = (a: typeof standings[number], b: typeof standings[number]) => {
+    if (b.player.totalScore !== a.player.totalScore) {
+      return b.player.totalScore - a.player.totalScore;
+    }
+    return tiePolicy === 'mostFlip7s' ? b.flip7Count - a.flip7Count : 0;
+  };
 
+  const sorted = [...standings].sort(compare);
+  return sorted.map(standing => ({
+    ...standing,
+    // Standard competition ranking: 1, 1, 3
+    rank: sorted.findIndex(other => compare(other, standing) === 0) + 1,
+  }));
+}
 
 /**
  * Get display name for a card
@@ -900,8 +1598,22 @@ export function validateGameState(room: Room): { isValid: boolean; errors: strin
     errors.push('Deck has negative cards');
   }
 
-  // Check if round number is valid
-  if (room.round < 0 || room.round > MAX_ROUNDS) {
+  // Check if the room settings are valid
+  const { targetScore, maxRounds, flip7Bonus } = room.settings;
+  if (targetScore <= 0) {
+    errors.push(`Invalid target score: ${targetScore}`);
+  }
+  if (flip7Bonus < 0) {
+    errors.push(`Invalid Flip 7 bonus: ${flip7Bonus}`);
+  }
+
+  // Check if the deck composition is valid
+  errors.push(...validateDeckDefinition(room.settings.deck).errors);
+
+  // Check if round number is valid; sudden-death rounds are played past
+  // maxRounds to break a tie
+  const playingOffTie = (room.suddenDeathPlayerIds ?? []).length > 0;
+  if (room.round < 0 || (maxRounds !== null && room.round > maxRounds && !playingOffTie)) {
     errors.push(`Invalid round number: ${room.round}`);
   }
 
@@ -922,7 +1634,7 @@ export function getGameStats(room: Room): {
   cardsInDeck: number;
   cardsInDiscard: number;
   currentRound: number;
-  maxRounds: number;
+  maxRounds: number | null;
 } {
   const players = Object.values(room.players);
   
@@ -934,6 +1646,6 @@ export function getGameStats(room: Room): {
     cardsInDeck: room.deck.length,
     cardsInDiscard: room.discardPile.length,
     currentRound: room.round,
-    maxRounds: MAX_ROUNDS,
+    maxRounds: room.settings.maxRounds,
   };
 } 
\ No newline at end of file
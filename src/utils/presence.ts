@@ -0,0 +1,49 @@
+import type { Player } from '../types';
+
+// How often an open game pings its seat's lastSeen
+export const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+
+// A seat that has missed this long of heartbeats is marked disconnected
+export const PRESENCE_TIMEOUT_MS = 45 * 1000;
+
+// Lobby seats disconnected for this long are given up and removed
+export const LOBBY_SEAT_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Live presence of a seat: online while heartbeats arrive, away once one is
+// missed, offline once the seat is (or is about to be) marked disconnected
+export type PresenceState = 'online' | 'away' | 'offline';
+
+type PresenceFields = Pick<Player, 'isConnected' | 'lastSeen' | 'isBot'>;
+
+/**
+ * Presence of a seat at a given time. Bots are played by the server and are
+ * always online.
+ */
+export function getPresence(player: PresenceFields, now: number): PresenceState {
+  if (player.isBot) return 'online';
+  if (!player.isConnected) return 'offline';
+
+  const silentFor = now - player.lastSeen.getTime();
+  if (silentFor > PRESENCE_TIMEOUT_MS) return 'offline';
+  if (silentFor > HEARTBEAT_INTERVAL_MS * 2) return 'away';
+  return 'online';
+}
+
+/**
+ * Connected human seats whose heartbeats have stopped
+ */
+export function getStaleSeatIds(players: Record<string, PresenceFields>, now: number): string[] {
+  return Object.entries(players)
+    .filter(([, player]) => !player.isBot && player.isConnected &&
+      now - player.lastSeen.getTime() > PRESENCE_TIMEOUT_MS)
+    .map(([playerId]) => playerId);
+}
+
+/**
+ * Human seats silent long enough to be removed from a lobby
+ */
+export function getAbandonedSeatIds(players: Record<string, PresenceFields>, now: number): string[] {
+  return Object.entries(players)
+    .filter(([, player]) => !player.isBot && now - player.lastSeen.getTime() > LOBBY_SEAT_TIMEOUT_MS)
+    .map(([playerId]) => playerId);
+}
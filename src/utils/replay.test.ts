@@ -0,0 +1,114 @@
+import { applyPlayerAction, DEFAULT_ROOM_SETTINGS, getSeatOrder } from './gameRules';
+import { chooseBotIntent, createBotPlayer } from './botPlayer';
+import { buildReplay } from './replay';
+import type { Room, PlayerIntent, RecordedAction } from '../types';
+
+// Test rebuilding games from their recorded moves
+console.log('🧪 Testing Replays...\n');
+
+function expect(label: string, condition: boolean): void {
+  if (!condition) {
+    throw new Error(`❌ ${label}`);
+  }
+  console.log(`   ✅ ${label}`);
+}
+
+// A three-bot table in the lobby
+function makeLobby(): Room {
+  const players: Room['players'] = {};
+  for (let index = 0; index < 3; index++) {
+    const bot = createBotPlayer(index, 'balanced');
+    players[bot.id] = { ...bot, isHost: index === 0 };
+  }
+
+  return {
+    code: 'REPLAY',
+    host: 'bot_1',
+    players,
+    seatOrder: Object.keys(players),
+    dealerId: null,
+    deck: [],
+    deckCount: 0,
+    discardPile: [],
+    currentTurn: null,
+    state: 'waiting',
+    round: 0,
+    roundSeeds: [],
+    createdAt: new Date(),
+    isSoloMode: true,
+    settings: { ...DEFAULT_ROOM_SETTINGS, maxRounds: 2 },
+    pendingAction: null,
+    actionStack: [],
+  };
+}
+
+// Play a whole game, logging each move the way the server does
+function playRecordedGame(): { room: Room; actions: RecordedAction[] } {
+  let room = makeLobby();
+  const actions: RecordedAction[] = [];
+
+  const apply = (intent: PlayerIntent) => {
+    const result = applyPlayerAction(room, intent);
+    if (!result.success || !result.updatedRoom) {
+      throw new Error(`${intent.action} failed: ${result.message}`);
+    }
+    room = { ...room, ...result.updatedRoom };
+
+    const dealsRound = intent.action === 'startGame' || intent.action === 'startNextRound';
+    actions.push({
+      sequence: actions.length,
+      playerId: intent.playerId,
+      action: intent.action,
+      targetPlayerId: intent.targetPlayerId ?? null,
+      seed: dealsRound ? room.roundSeeds[room.roundSeeds.length - 1] : null,
+      seats: dealsRound
+        ? getSeatOrder(room.players, room.seatOrder).map(id => ({ id, name: room.players[id].name, isBot: true, isHost: room.players[id].isHost }))
+        : null,
+      createdAt: new Date(),
+    });
+  };
+
+  apply({ roomCode: room.code, playerId: 'bot_1', action: 'startGame' });
+  while (room.state !== 'gameOver') {
+    if (room.state === 'roundEnd') {
+      apply({ roomCode: room.code, playerId: 'bot_1', action: 'startNextRound' });
+    } else {
+      apply(chooseBotIntent(room, room.pendingAction?.playerId ?? room.currentTurn!));
+    }
+  }
+
+  return { room, actions };
+}
+
+// Test 1: A finished game replays to the same result
+console.log('1. Testing a full replay...');
+const { room: finished, actions } = playRecordedGame();
+{
+  const replay = buildReplay(finished, actions);
+  const last = replay.frames[replay.frames.length - 1].room;
+  expect('Every move replays', replay.error === null && replay.frames.length === actions.length + 1);
+  expect('Scores match the original game', Object.values(finished.players).every(player => last.players[player.id].totalScore === player.totalScore));
+}
+
+// Test 2: A host who left after the game still has their seat in the replay
+console.log('\n2. Testing a replay after a seat was removed...');
+{
+  const { bot_1: leaver, ...remaining } = finished.players;
+  const afterLeave: Room = {
+    ...finished,
+    host: 'bot_2',
+    players: { ...remaining, bot_2: { ...remaining.bot_2, isHost: true } },
+    seatOrder: finished.seatOrder.filter(id => id !== leaver.id),
+  };
+
+  const replay = buildReplay(afterLeave, actions);
+  const start = replay.frames[0].room;
+  const last = replay.frames[replay.frames.length - 1].room;
+  expect('The starting table has the recorded seats', start.seatOrder.join() === 'bot_1,bot_2,bot_3' && start.players.bot_1?.name === leaver.name);
+  expect('The leaver hosts the replayed game', start.host === 'bot_1' && start.players.bot_1.isHost && !start.players.bot_2.isHost);
+  expect('Every move replays', replay.error === null && replay.frames.length === actions.length + 1);
+  expect('The leaver ends on their real score', last.players.bot_1.totalScore === leaver.totalScore);
+  expect('The dealer matches the original game', last.dealerId === finished.dealerId);
+}
+
+console.log('\n🎉 All replay tests completed successfully!');
@@ -0,0 +1,140 @@
+import type { Room, Player, RecordedAction, RecordedSeat } from '../types';
+import { applyPlayerAction } from './gameRules';
+import type { GameEffect } from './gameRules';
+
+// One table state in a replay
+export interface ReplayFrame {
+  room: Room;
+  action: RecordedAction | null; // Move that produced this state; null for the starting table
+  effects: GameEffect[];
+}
+
+export interface Replay {
+  frames: ReplayFrame[];
+  error: string | null; // Set when a recorded move could not be replayed
+}
+
+/**
+ * Seat the players a round was dealt to, in their recorded order and with
+ * the host they had then. Players who have since left the room get their
+ * seat back, empty.
+ */
+function seatRecordedPlayers(room: Room, seats: RecordedSeat[]): Room {
+  const players: Record<string, Player> = {};
+  for (const seat of seats) {
+    const player = room.players[seat.id] ?? {
+      id: seat.id,
+      name: seat.name,
+      hand: [],
+      score: 0,
+      roundScore: 0,
+      totalScore: 0,
+      status: 'active',
+      history: [],
+      joinedAt: room.createdAt,
+      isHost: false,
+      hasFlip7: false,
+      isConnected: false,
+      lastSeen: room.createdAt,
+      ...(seat.isBot && { isBot: true }),
+    };
+    players[seat.id] = { ...player, isHost: seat.isHost };
+  }
+
+  const host = seats.find(seat => seat.isHost)?.id ?? room.host;
+  return { ...room, host, players, seatOrder: seats.map(seat => seat.id) };
+}
+
+/**
+ * Reset a room to the table it was before its first move: same settings and
+ * code, with empty hands and no scores. The seats recorded with the first
+ * deal are used when given, since players may have left the room since.
+ */
+export function createReplayStartRoom(room: Room, seats?: RecordedSeat[] | null): Room {
+  const players: Record<string, Player> = {};
+  for (const [playerId, player] of Object.entries(room.players)) {
+    players[playerId] = {
+      ...player,
+      hand: [],
+      score: 0,
+      roundScore: 0,
+      totalScore: 0,
+      status: 'active',
+      history: [],
+      hasFlip7: false,
+      isFrozen: false,
+    };
+  }
+
+  const startRoom: Room = {
+    ...room,
+    players,
+    deck: [],
+    deckCount: 0,
+    discardPile: [],
+    currentTurn: null,
+    dealerId: null,
+    state: 'waiting',
+    round: 0,
+    roundSeeds: [],
+    winner: undefined,
+    winners: [],
+    suddenDeathPlayerIds: [],
+    pendingAction: null,
+    actionStack: [],
+    turnDeadline: null,
+  };
+  return seats ? seatRecordedPlayers(startRoom, seats) : startRoom;
+}
+
+/**
+ * Rebuild every state a room went through by re-running the rules engine on
+ * its recorded moves. Moves that dealt a round reuse their recorded seed, so
+ * each deck comes out in the same order as in the original game.
+ */
+export function buildReplay(room: Room, actions: RecordedAction[]): Replay {
+  let current = createReplayStartRoom(room, actions[0]?.seats);
+  const frames: ReplayFrame[] = [{ room: current, action: null, effects: [] }];
+
+  for (const action of actions) {
+    // Logs written before seats were recorded fall back to the current room
+    if (action.seats) {
+      current = seatRecordedPlayers(current, action.seats);
+    }
+
+    const result = applyPlayerAction(current, {
+      roomCode: room.code,
+      playerId: action.playerId,
+      action: action.action,
+      targetPlayerId: action.targetPlayerId ?? undefined,
+    }, action.seed ?? undefined);
+
+    if (!result.success || !result.updatedRoom) {
+      return {
+        frames,
+        error: `Move ${action.sequence + 1} (${action.action}) could not be replayed: ${result.message}`,
+      };
+    }
+
+    const next = { ...current, ...result.updatedRoom };
+    current = { ...next, deckCount: next.deck.length };
+    frames.push({ room: current, action, effects: result.effects ?? [] });
+  }
+
+  return { frames, error: null };
+}
+
+/**
+ * First frame of each round, for jump-to-round controls. A restarted game
+ * starts again from round 1, so rounds can repeat.
+ */
+export function getRoundStarts(frames: ReplayFrame[]): { round: number; frameIndex: number }[] {
+  return frames
+    .map((frame, frameIndex) => ({ frame, frameIndex }))
+    .filter(({ frame }) => frame.action !== null && (
+      frame.action.action === 'startGame' ||
+      frame.action.action === 'startNextRound' ||
+      frame.action.action === 'restartGame'
+    ))
+    .map(({ frame, frameIndex }) => ({ round: frame.room.round, frameIndex }));
+}